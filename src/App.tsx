@@ -4,90 +4,268 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { centerCrop, makeAspectCrop, type Crop, type PercentCrop } from 'react-image-crop';
 import { 
     generateEditedImage, 
+    generateMaskedEdit,
     generateFilteredImage, 
     generateAdjustedImage, 
     upscaleImage, 
     compositeWithBackground, 
+    generateBackgroundReplacement,
     detectObjects,
     generateObjectEdit,
-    type Resolution 
+    generateSubjectMask,
+    getModelLabel,
+    isAbortError,
+    type RequestOptions,
+    type Resolution,
+    type RetryReason,
+    type UpscaleMethod,
 } from './services/geminiService';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
-import FilterPanel from './components/FilterPanel';
-import AdjustmentPanel from './components/AdjustmentPanel';
+import ErrorToast, { type ErrorNotice } from './components/ErrorToast';
+import FilterPanel, { type FilterMode } from './components/FilterPanel';
+import AdjustmentPanel, { type AdjustmentMode } from './components/AdjustmentPanel';
+import AdjustmentPreview from './components/AdjustmentPreview';
 import CropPanel from './components/CropPanel';
-import DownloadPanel from './components/DownloadPanel';
+import CropGuides, { type CropGuide } from './components/CropGuides';
+import TransformPreview from './components/TransformPreview';
+import DownloadPanel, { type TransparentFormat } from './components/DownloadPanel';
+import ExportDialog from './components/ExportDialog';
+import SettingsDialog from './components/SettingsDialog';
+import UpscaleReview from './components/UpscaleReview';
 import BackgroundPanel from './components/BackgroundPanel';
-import ObjectPanel, { type DetectedObject as UiDetectedObject } from './components/ObjectPanel';
+import CutoutPanel from './components/CutoutPanel';
+import ObjectPanel, { type DetectedObject as UiDetectedObject, type ObjectEditOptions } from './components/ObjectPanel';
 import { UndoIcon, RedoIcon, EyeIcon, ChevronDownIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
+import MaskCanvas, { type BrushMode, type MaskCanvasHandle } from './components/MaskCanvas';
+import RetouchToolbar, { type RetouchMode } from './components/RetouchToolbar';
+import ZoomViewport from './components/ZoomViewport';
+import CompareView from './components/CompareView';
+import LayerPanel from './components/LayerPanel';
+import LayerStackPreview from './components/LayerStackPreview';
+import OverlayPanel from './components/OverlayPanel';
+import OverlayEditor from './components/OverlayEditor';
+import { canvasToFile, clientToImagePoint, createCanvas, dataURLtoFile, hasTransparency, loadImage } from './utils/image';
+import { applyAlphaMask, compositeWithMask, compositeRegion } from './utils/compositing';
+import { applyAdjustments, DEFAULT_ADJUSTMENTS, isNeutralAdjustment, renderAdjustedImage, type AdjustmentSettings } from './utils/adjustments';
+import { detectStraightenAngle, drawTransformed, getTransformedSize, IDENTITY_TRANSFORM, isIdentityTransform, type ImageTransform } from './utils/transform';
+import { createChangeLayer, getStepImage, isLayeredOperation } from './utils/layers';
+import { describeOverlays, renderOverlays, type OverlayItem } from './utils/overlays';
+import { createColorGradeProcessor, DEFAULT_COLOR_GRADE, isNeutralGrade, renderGradedImage, type ColorGrade } from './utils/colorGrade';
+import {
+    createProject,
+    deleteProject,
+    listProjects,
+    loadProject,
+    addHistoryEntries,
+    setHistoryPosition,
+    updateHistoryEntry,
+    type HistoryPosition,
+    type ProjectRecord,
+} from './services/projectStore';
+import HistoryTimeline, { operationLabels } from './components/HistoryTimeline';
+import BranchPanel from './components/BranchPanel';
+import VariationCountPicker from './components/VariationCountPicker';
+import VariantGrid from './components/VariantGrid';
+import BatchScreen from './components/BatchScreen';
+import RecipePanel, { type RecipeRun } from './components/RecipePanel';
+import StylesPanel, { type AppliedStyle } from './components/StylesPanel';
+import { canReplay, createRecipeFromHistory, replayHistoryStep, runRecipeStep, type Recipe } from './services/recipes';
+import { deleteRecipe, listRecipes, saveRecipe } from './services/recipeStore';
+import { deleteWatermark, getExportWatermarkId, listWatermarks, saveWatermark, setExportWatermarkId, type WatermarkPreset } from './services/watermarkStore';
+import type { HistoryEntry, HistoryEntryDetails, Layer, LayerStack, StepInputs, VariantSet } from './types';
+import { createId } from './utils/id';
+import { getLeaves, getPath } from './utils/historyTree';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+type Tab = 'retouch' | 'objects' | 'crop' | 'adjust' | 'filters' | 'styles' | 'background' | 'layers' | 'overlays' | 'recipes';
 
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
+// Runs `count` requests in parallel and keeps whichever succeed. Each request
+// gets its own variant number so the variations are not served from one cached result.
+const generateVariants = async (count: number, generate: (variant: number) => Promise<string>, filePrefix: string): Promise<File[]> => {
+    const results = await Promise.allSettled(Array.from({ length: count }, (_, variant) => generate(variant)));
+    const files = results.flatMap((result, i) =>
+        result.status === 'fulfilled' ? [dataURLtoFile(result.value, `${filePrefix}-${Date.now()}-${i + 1}.png`)] : []);
+    if (files.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
     }
-    return new File([u8arr], filename, {type:mime});
-}
+    return files;
+};
+
+// Shown on the loading overlay while a failed request waits to be retried.
+const retryMessages: Record<RetryReason, string> = {
+    'rate-limit': 'The model is receiving too many requests.',
+    'unavailable': 'The model is busy.',
+    'timeout': 'The model took too long to answer.',
+    'network': 'The connection dropped.',
+};
 
-type Tab = 'retouch' | 'objects' | 'crop' | 'adjust' | 'filters' | 'background';
+// Grey squares drawn behind images so transparent areas are visible.
+const checkerboardStyle: React.CSSProperties = {
+    backgroundImage: 'repeating-conic-gradient(#4b5563 0% 25%, #374151 0% 50%)',
+    backgroundSize: '20px 20px',
+};
 
 const App: React.FC = () => {
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  // Every step ever made, as a tree linked by parentId
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Lets steps added in one go, such as a recipe run, find the parent added just before them.
+  const historyRef = useRef<HistoryEntry[]>(history);
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [tipId, setTipId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState('AI is working its magic...');
-  const [error, setError] = useState<string | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  // Aborts the request behind the loading overlay; null when nothing can be cancelled.
+  const [requestController, setRequestController] = useState<AbortController | null>(null);
   const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
+  const [cropTransform, setCropTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [cropGuide, setCropGuide] = useState<CropGuide>('thirds');
   const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isCompareViewOpen, setIsCompareViewOpen] = useState<boolean>(false);
   const imgRef = useRef<HTMLImageElement>(null);
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+
+  // Mask Retouch State
+  const [retouchMode, setRetouchMode] = useState<RetouchMode>('point');
+  const [brushMode, setBrushMode] = useState<BrushMode>('paint');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [feather, setFeather] = useState<number>(8);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const maskRef = useRef<MaskCanvasHandle>(null);
 
   // Object Detection State
   const [detectedObjects, setDetectedObjects] = useState<UiDetectedObject[]>([]);
   const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
   const [hoveredObjectId, setHoveredObjectId] = useState<string | null>(null);
 
+  // Local Adjustment State
+  const [adjustmentMode, setAdjustmentMode] = useState<AdjustmentMode>('sliders');
+  const [adjustmentSettings, setAdjustmentSettings] = useState<AdjustmentSettings>(DEFAULT_ADJUSTMENTS);
+
+  // Color Grade State
+  const [filterMode, setFilterMode] = useState<FilterMode>('ai');
+  const [colorGrade, setColorGrade] = useState<ColorGrade>(DEFAULT_COLOR_GRADE);
+
+  // Background Removal State
+  const [cutoutMask, setCutoutMask] = useState<File | null>(null);
+
+  // Layer State
+  const [layerEdit, setLayerEdit] = useState<{ entryId: string, stack: LayerStack } | null>(null);
+  const [maskLayerId, setMaskLayerId] = useState<string | null>(null);
+  const [layerMaskStart, setLayerMaskStart] = useState<Blob | undefined>();
+  const layerMaskRef = useRef<MaskCanvasHandle>(null);
+
+  // Overlay State
+  const [overlayItems, setOverlayItems] = useState<OverlayItem[]>([]);
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [watermarks, setWatermarks] = useState<WatermarkPreset[]>(listWatermarks);
+  const [exportWatermarkId, setExportWatermark] = useState<string | null>(getExportWatermarkId);
+  const [cutoutPreviewUrl, setCutoutPreviewUrl] = useState<string | null>(null);
+  const [cutoutMaskVersion, setCutoutMaskVersion] = useState<number>(0);
+  const [hasCutoutMask, setHasCutoutMask] = useState<boolean>(false);
+  const [cutoutFeather, setCutoutFeather] = useState<number>(2);
+  const [showCutoutMask, setShowCutoutMask] = useState<boolean>(true);
+  const [currentHasTransparency, setCurrentHasTransparency] = useState<boolean>(false);
+  const cutoutMaskRef = useRef<MaskCanvasHandle>(null);
+
+  // Variations State
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [variantSets, setVariantSets] = useState<VariantSet[]>([]);
+  const [activeVariantSetId, setActiveVariantSetId] = useState<string | null>(null);
+
+  // Recipe State
+  const [recipes, setRecipes] = useState<Recipe[]>(listRecipes);
+  const [recipeRun, setRecipeRun] = useState<RecipeRun | null>(null);
+
+  // Batch Mode State
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+
+  // Project Persistence State
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+
   // Download Panel State
   const [isDownloadPanelOpen, setIsDownloadPanelOpen] = useState<boolean>(false);
+  // The image the export dialog was opened with, after the export watermark was stamped on it.
+  const [exportImage, setExportImage] = useState<File | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // An upscaled image waiting for the user to keep, download or discard it.
+  const [upscaleResult, setUpscaleResult] = useState<{
+    file: File;
+    source: File;
+    sourceId: string | null;
+    resolution: Resolution;
+    method: UpscaleMethod;
+    durationMs: number;
+  } | null>(null);
   const downloadButtonRef = useRef<HTMLDivElement>(null);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  // The active branch, from the original down to its newest step
+  const historyPath = useMemo(() => getPath(history, tipId), [history, tipId]);
+  const branchTips = useMemo(() => getLeaves(history), [history]);
+  const historyIndex = historyPath.findIndex(entry => entry.id === currentId);
+
+  const currentEntry = historyPath[historyIndex] ?? null;
+  // A step whose layers were edited has no single image until it is flattened; until then its layers are drawn.
+  const [flattenedStep, setFlattenedStep] = useState<{ stack: LayerStack, file: File } | null>(null);
+  const currentImage = !currentEntry?.layers?.edited
+      ? currentEntry?.file ?? null
+      : flattenedStep?.stack === currentEntry.layers ? flattenedStep.file : null;
+  const displayedImage = currentImage ?? currentEntry?.file ?? null;
+  const originalImage = historyPath[0]?.file ?? null;
+
+  // The crop selection is made on the rotated image, which can have a different size.
+  const cropContentSize = useMemo(
+    () => imageSize && getTransformedSize(imageSize.width, imageSize.height, cropTransform),
+    [imageSize, cropTransform],
+  );
+  const cropSize = useMemo(
+    () => completedCrop?.width && completedCrop.height && cropContentSize ? {
+      width: Math.round(completedCrop.width / 100 * cropContentSize.width),
+      height: Math.round(completedCrop.height / 100 * cropContentSize.height),
+    } : null,
+    [completedCrop, cropContentSize],
+  );
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
 
   // Effect to create and revoke object URLs safely for the current image
   useEffect(() => {
-    if (currentImage) {
-      const url = URL.createObjectURL(currentImage);
+    if (displayedImage) {
+      const url = URL.createObjectURL(displayedImage);
       setCurrentImageUrl(url);
       return () => URL.revokeObjectURL(url);
     } else {
       setCurrentImageUrl(null);
     }
-  }, [currentImage]);
+  }, [displayedImage]);
+
+  // Every tool but the layer panel works on a single image, so edited layers are flattened once the user moves on.
+  useEffect(() => {
+    const stack = currentEntry?.layers;
+    if (!currentEntry || !stack?.edited || activeTab === 'layers') return;
+    let cancelled = false;
+    getStepImage(currentEntry)
+        .then(file => { if (!cancelled) setFlattenedStep({ stack, file }); })
+        .catch(err => console.error('Failed to flatten the layers.', err));
+    return () => { cancelled = true; };
+  }, [currentEntry, activeTab]);
   
   // Effect to create and revoke object URLs safely for the original image
   useEffect(() => {
@@ -100,6 +278,32 @@ const App: React.FC = () => {
     }
   }, [originalImage]);
 
+  // Transparent images get a checkerboard behind them and extra download formats.
+  useEffect(() => {
+    setCurrentHasTransparency(false);
+    if (!displayedImage) return;
+    let cancelled = false;
+    hasTransparency(displayedImage)
+        .then(result => { if (!cancelled) setCurrentHasTransparency(result); })
+        .catch(err => console.error('Failed to check the image for transparency.', err));
+    return () => { cancelled = true; };
+  }, [displayedImage]);
+
+  // Effect to re-render the cutout preview whenever the mask or its edge softness changes
+  useEffect(() => {
+    if (!cutoutMask || !currentImage) {
+      setCutoutPreviewUrl(null);
+      return;
+    }
+    let cancelled = false;
+    const renderPreview = async () => {
+      const mask = await cutoutMaskRef.current?.toMaskFile();
+      const url = mask ? await applyAlphaMask(currentImage, mask) : null;
+      if (!cancelled) setCutoutPreviewUrl(url);
+    };
+    renderPreview().catch(err => console.error('Failed to render the cutout preview.', err));
+    return () => { cancelled = true; };
+  }, [cutoutMask, cutoutMaskVersion, cutoutFeather, currentImage]);
 
   // Effect to close dropdown when clicking outside
   useEffect(() => {
@@ -116,332 +320,1131 @@ const App: React.FC = () => {
   }, []);
 
 
+  // The live preview for the local, slider-driven tools, or null when nothing would change
+  const previewProcess = useMemo(() => {
+    if (activeTab === 'adjust' && adjustmentMode === 'sliders' && !isNeutralAdjustment(adjustmentSettings)) {
+      return (source: ImageData) => applyAdjustments(source, adjustmentSettings);
+    }
+    if (activeTab === 'filters' && filterMode === 'grade' && !isNeutralGrade(colorGrade)) {
+      return createColorGradeProcessor(colorGrade);
+    }
+    return null;
+  }, [activeTab, adjustmentMode, adjustmentSettings, filterMode, colorGrade]);
+
+  const hasEditTarget = retouchMode === 'mask' ? hasMask : !!editHotspot;
+
   const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  const canRedo = historyIndex >= 0 && historyIndex < historyPath.length - 1;
 
   const resetInteractionState = useCallback(() => {
     setEditHotspot(null);
-    setDisplayHotspot(null);
     setDetectedObjects([]);
     setSelectedObjectId(null);
     setHoveredObjectId(null);
     setCrop(undefined);
     setCompletedCrop(undefined);
+    setCropTransform(IDENTITY_TRANSFORM);
+    setHasMask(false);
+    setCutoutMask(null);
+    setMaskLayerId(null);
   }, []);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Makes the request that is about to start cancellable, and reports its retries on the loading overlay.
+  const startRequest = useCallback((): RequestOptions => {
+    const controller = new AbortController();
+    setRequestController(controller);
+    return {
+        signal: controller.signal,
+        onRetry: ({ attempt, maxAttempts, reason }) =>
+            setLoadingMessage(`${retryMessages[reason]} Trying again (attempt ${attempt + 1} of ${maxAttempts})...`),
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading) setRequestController(null);
+  }, [isLoading]);
+
+  // Saving happens in the background; a failed save should never interrupt editing.
+  const persistHistory = useCallback((targetProjectId: string | null, entries: HistoryEntry[], position: HistoryPosition) => {
+    if (!targetProjectId) return;
+    addHistoryEntries(targetProjectId, entries, position)
+        .catch(err => console.error('Failed to save project history.', err));
+  }, []);
+
+  // Shows another step, optionally on another branch, without creating a new one.
+  const moveTo = useCallback((nextCurrentId: string, nextTipId: string | null = tipId) => {
+    setCurrentId(nextCurrentId);
+    setTipId(nextTipId);
+    resetInteractionState();
+    if (projectId) {
+      setHistoryPosition(projectId, { currentId: nextCurrentId, tipId: nextTipId })
+          .catch(err => console.error('Failed to save project position.', err));
+    }
+  }, [tipId, projectId, resetInteractionState]);
+
+  const refreshProjects = useCallback(() => {
+    listProjects()
+        .then(setProjects)
+        .catch(err => console.error('Failed to load saved projects.', err));
+  }, []);
+
+  const addImageToHistory = useCallback(async (newImageFile: File, details: HistoryEntryDetails, parentId: string | null = currentId): Promise<HistoryEntry> => {
+    // Results that keep the frame are stacked over the parent's layers so they can be rebalanced later.
+    // Each layer only holds what its operation changed, so the layers below show through everywhere else.
+    const parent = historyRef.current.find(entry => entry.id === parentId);
+    const label = operationLabels[details.operation];
+    const layers: LayerStack | undefined = parent && isLayeredOperation(details) ? {
+        base: parent.layers?.base ?? parent.file,
+        layers: [
+            ...(parent.layers?.layers ?? []),
+            await createChangeLayer(newImageFile, await getStepImage(parent), details.prompt ? `${label}: ${details.prompt}` : label),
+        ],
+    } : undefined;
+    const entry: HistoryEntry = {
+        ...details,
+        id: createId(),
+        file: newImageFile,
+        parentId,
+        layers,
+        createdAt: Date.now(),
+    };
+    // Editing from an earlier step keeps the later steps as a separate branch.
+    historyRef.current = [...historyRef.current, entry];
+    setHistory(current => [...current, entry]);
+    setCurrentId(entry.id);
+    setTipId(entry.id);
     resetInteractionState();
-  }, [history, historyIndex, resetInteractionState]);
+    persistHistory(projectId, [entry], { currentId: entry.id, tipId: entry.id });
+    return entry;
+  }, [currentId, projectId, persistHistory, resetInteractionState]);
+
+  // A single result goes straight into history; several are offered for the user to pick from.
+  const addResultsToHistory = useCallback(async (files: File[], details: HistoryEntryDetails) => {
+    if (files.length === 1 || !currentId) {
+      await addImageToHistory(files[0], details);
+      return;
+    }
+    const variantSet: VariantSet = {
+        id: createId(),
+        sourceId: currentId,
+        details,
+        files,
+        entryIds: files.map(() => null),
+        createdAt: Date.now(),
+    };
+    setVariantSets(sets => [...sets, variantSet]);
+    setActiveVariantSetId(variantSet.id);
+  }, [currentId, addImageToHistory]);
+
+  const handleChooseVariant = useCallback(async (setId: string, index: number) => {
+    const variantSet = variantSets.find(set => set.id === setId);
+    if (!variantSet) return;
+    try {
+        // Variants from an earlier set branch off the step they were generated from.
+        const entry = await addImageToHistory(variantSet.files[index], {
+            ...variantSet.details,
+            parameters: { ...variantSet.details.parameters, variant: index + 1, variantCount: variantSet.files.length },
+        }, variantSet.sourceId);
+        setVariantSets(sets => sets.map(set => set.id === setId
+            ? { ...set, entryIds: set.entryIds.map((id, i) => i === index ? entry.id : id) }
+            : set));
+        setActiveVariantSetId(null);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to add the variation. ${errorMessage}` });
+        console.error(err);
+    }
+  }, [variantSets, addImageToHistory]);
+
+  const getHistoryEntry = useCallback((entryId: string) => history.find(entry => entry.id === entryId) ?? null, [history]);
 
   const handleImageUpload = useCallback((file: File) => {
+    const entry: HistoryEntry = {
+        id: createId(),
+        file,
+        operation: 'upload',
+        parameters: { fileName: file.name },
+        parentId: null,
+        createdAt: Date.now(),
+    };
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
+    setHistory([entry]);
+    setCurrentId(entry.id);
+    setTipId(entry.id);
+    setVariantSets([]);
+    setRecipeRun(null);
     setActiveTab('retouch');
     resetInteractionState();
+
+    const { id, saved } = createProject(file.name.replace(/\.[^.]+$/, '') || 'Untitled');
+    saved.catch(err => console.error('Failed to create project.', err));
+    setProjectId(id);
+    persistHistory(id, [entry], { currentId: entry.id, tipId: entry.id });
+  }, [persistHistory, resetInteractionState]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    setError(null);
+    try {
+        const { project, entries } = await loadProject(id);
+        if (entries.length === 0) {
+            throw new Error('This project has no saved images.');
+        }
+        // Fall back to the newest step if the saved position no longer matches the entries.
+        const leaves = getLeaves(entries);
+        const savedTip = leaves.find(entry => entry.id === project.tipId) ?? leaves[leaves.length - 1];
+        const savedPath = getPath(entries, savedTip.id);
+        const savedCurrent = savedPath.find(entry => entry.id === project.currentId) ?? savedTip;
+        setHistory(entries);
+        setCurrentId(savedCurrent.id);
+        setTipId(savedTip.id);
+        setVariantSets([]);
+        setRecipeRun(null);
+        setProjectId(project.id);
+        setActiveTab('retouch');
+        resetInteractionState();
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to open the project. ${errorMessage}`, cause: err, retry: () => handleOpenProject(id) });
+        console.error(err);
+    }
   }, [resetInteractionState]);
 
-  const handleGenerate = useCallback(async () => {
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+        await deleteProject(id);
+    } catch (err) {
+        console.error('Failed to delete project.', err);
+    }
+    refreshProjects();
+  }, [refreshProjects]);
+
+  // Refresh the saved project list whenever the start screen is shown
+  useEffect(() => {
+    if (!currentImage) {
+      refreshProjects();
+    }
+  }, [currentImage, refreshProjects]);
+
+  // Takes the prompt explicitly so a failed edit can be retried with a reworded one.
+  const handleGenerate = useCallback(async (editPrompt: string = prompt) => {
     if (!currentImage) {
-      setError('No image loaded to edit.');
+      setError({ message: 'No image loaded to edit.' });
       return;
     }
     
-    if (!prompt.trim()) {
-        setError('Please enter a description for your edit.');
+    if (!editPrompt.trim()) {
+        setError({ message: 'Please enter a description for your edit.' });
+        return;
+    }
+
+    if (retouchMode === 'point' && !editHotspot) {
+        setError({ message: 'Please click on the image to select an area to edit.' });
         return;
     }
 
-    if (!editHotspot) {
-        setError('Please click on the image to select an area to edit.');
+    if (retouchMode === 'mask' && !hasMask) {
+        setError({ message: 'Please paint over the area of the image you want to edit.' });
         return;
     }
 
     setIsLoading(true);
-    setLoadingMessage('AI is working its magic...');
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : 'AI is working its magic...');
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspot);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        let generate: (variant: number) => Promise<string>;
+        let inputs: StepInputs | undefined;
+        if (retouchMode === 'mask') {
+            const maskFile = await maskRef.current?.toMaskFile();
+            if (!maskFile) {
+                throw new Error('The painted mask is empty.');
+            }
+            // Only keep the model's pixels inside the mask; everything else stays untouched.
+            generate = async variant => compositeWithMask(currentImage, await generateMaskedEdit(currentImage, editPrompt, maskFile, { ...requestOptions, variant }), maskFile);
+            inputs = { mask: maskFile };
+        } else {
+            generate = variant => generateEditedImage(currentImage, editPrompt, editHotspot!, { ...requestOptions, variant });
+        }
+        const newImageFiles = await generateVariants(variationCount, generate, 'edited');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'retouch',
+            prompt: editPrompt,
+            parameters: retouchMode === 'mask' ? { mode: 'mask', feather } : { mode: 'point', hotspot: editHotspot },
+            inputs,
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel(retouchMode === 'mask' ? 'maskEdit' : 'edit'),
+        });
         setEditHotspot(null);
-        setDisplayHotspot(null);
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate the image. ${errorMessage}`);
+        setError({
+            message: `Failed to generate the image. ${errorMessage}`,
+            cause: err,
+            prompt: editPrompt,
+            retry: (nextPrompt = editPrompt) => {
+                setPrompt(nextPrompt);
+                handleGenerate(nextPrompt);
+            },
+        });
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory]);
+  }, [currentImage, prompt, editHotspot, retouchMode, hasMask, feather, variationCount, addResultsToHistory, startRequest]);
   
   const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply a filter to.');
+      setError({ message: 'No image loaded to apply a filter to.' });
+      return;
+    }
+    
+    setIsLoading(true);
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : 'Applying creative filter...');
+    setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
+    
+    try {
+        const newImageFiles = await generateVariants(variationCount, variant => generateFilteredImage(currentImage, filterPrompt, { ...requestOptions, variant }), 'filtered');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'filter',
+            prompt: filterPrompt,
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('filter'),
+        });
+    } catch (err) {
+        if (isAbortError(err)) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({
+            message: `Failed to apply the filter. ${errorMessage}`,
+            cause: err,
+            prompt: filterPrompt,
+            retry: (nextPrompt = filterPrompt) => handleApplyFilter(nextPrompt),
+        });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, variationCount, addResultsToHistory, startRequest]);
+  
+  const handleApplyStyle = useCallback(async (stylePrompt: string, style: AppliedStyle) => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to apply a style to.' });
       return;
     }
     
     setIsLoading(true);
-    setLoadingMessage('Applying creative filter...');
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : `Applying ${style.name} style...`);
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const newImageFiles = await generateVariants(variationCount, variant => generateFilteredImage(currentImage, stylePrompt, { ...requestOptions, variant }), 'styled');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'style',
+            prompt: stylePrompt,
+            parameters: { ...style },
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('filter'),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the filter. ${errorMessage}`);
+        setError({
+            message: `Failed to apply the style. ${errorMessage}`,
+            cause: err,
+            prompt: stylePrompt,
+            retry: (nextPrompt = stylePrompt) => handleApplyStyle(nextPrompt, style),
+        });
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, variationCount, addResultsToHistory, startRequest]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply an adjustment to.');
+      setError({ message: 'No image loaded to apply an adjustment to.' });
       return;
     }
     
     setIsLoading(true);
-    setLoadingMessage('Making professional adjustments...');
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : 'Making professional adjustments...');
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
     
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const newImageFiles = await generateVariants(variationCount, variant => generateAdjustedImage(currentImage, adjustmentPrompt, { ...requestOptions, variant }), 'adjusted');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'adjustment',
+            prompt: adjustmentPrompt,
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('adjust'),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the adjustment. ${errorMessage}`);
+        setError({
+            message: `Failed to apply the adjustment. ${errorMessage}`,
+            cause: err,
+            prompt: adjustmentPrompt,
+            retry: (nextPrompt = adjustmentPrompt) => handleApplyAdjustment(nextPrompt),
+        });
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, variationCount, addResultsToHistory, startRequest]);
 
-  const handleApplyBackground = useCallback(async (backgroundFile: File) => {
+  const handleApplyLocalAdjustment = useCallback(async () => {
     if (!currentImage) {
-      setError('No image loaded to apply a background to.');
+      setError({ message: 'No image loaded to apply an adjustment to.' });
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingMessage('Applying adjustments...');
+    setError(null);
+    const startedAt = performance.now();
+
+    try {
+        const adjustedFile = await renderAdjustedImage(currentImage, adjustmentSettings);
+        await addImageToHistory(adjustedFile, {
+            operation: 'adjustment',
+            parameters: { mode: 'local', settings: adjustmentSettings },
+            durationMs: performance.now() - startedAt,
+        });
+        setAdjustmentSettings(DEFAULT_ADJUSTMENTS);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to apply the adjustments. ${errorMessage}` });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, adjustmentSettings, addImageToHistory]);
+
+  const handleApplyGrade = useCallback(async () => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to apply a grade to.' });
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingMessage('Applying the color grade...');
+    setError(null);
+    const startedAt = performance.now();
+
+    try {
+        const gradedFile = await renderGradedImage(currentImage, colorGrade);
+        await addImageToHistory(gradedFile, {
+            operation: 'filter',
+            parameters: { mode: 'grade', grade: colorGrade },
+            durationMs: performance.now() - startedAt,
+        });
+        setColorGrade(DEFAULT_COLOR_GRADE);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to apply the grade. ${errorMessage}` });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, colorGrade, addImageToHistory]);
+
+  const handleApplyOverlays = useCallback(async () => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to apply overlays to.' });
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingMessage('Applying overlays...');
+    setError(null);
+    const startedAt = performance.now();
+
+    try {
+        const overlaidFile = await renderOverlays(currentImage, overlayItems);
+        await addImageToHistory(overlaidFile, {
+            operation: 'overlay',
+            parameters: { items: describeOverlays(overlayItems) },
+            durationMs: performance.now() - startedAt,
+        });
+        setOverlayItems([]);
+        setSelectedOverlayId(null);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to apply the overlays. ${errorMessage}` });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, overlayItems, addImageToHistory]);
+
+  const handleSaveWatermark = useCallback((name: string) => {
+    saveWatermark({ id: createId(), name, createdAt: Date.now(), items: overlayItems });
+    setWatermarks(listWatermarks());
+  }, [overlayItems]);
+
+  const handleDeleteWatermark = useCallback((id: string) => {
+    deleteWatermark(id);
+    setWatermarks(listWatermarks());
+    setExportWatermark(getExportWatermarkId());
+  }, []);
+
+  const handleExportWatermarkChange = useCallback((id: string | null) => {
+    setExportWatermarkId(id);
+    setExportWatermark(id);
+  }, []);
+
+  // Stamps the chosen watermark on an image that is about to leave the app. The result is a PNG.
+  const withExportWatermark = useCallback(async (file: File): Promise<File> => {
+    const preset = watermarks.find(p => p.id === exportWatermarkId);
+    if (!preset) return file;
+    const watermarked = await renderOverlays(file, preset.items);
+    return new File([watermarked], `${file.name.replace(/\.[^.]+$/, '')}.png`, { type: 'image/png' });
+  }, [watermarks, exportWatermarkId]);
+
+  const handleApplyBackgroundPrompt = useCallback(async (backgroundPrompt: string) => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to apply a background to.' });
       return;
     }
     
     setIsLoading(true);
-    setLoadingMessage('Compositing images...');
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : 'Generating a new background...');
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
     
     try {
-        const compositedImageUrl = await compositeWithBackground(currentImage, backgroundFile);
-        const newImageFile = dataURLtoFile(compositedImageUrl, `composited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const newImageFiles = await generateVariants(variationCount, variant => generateBackgroundReplacement(currentImage, backgroundPrompt, { ...requestOptions, variant }), 'background');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'background',
+            prompt: backgroundPrompt,
+            parameters: { mode: 'prompt' },
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('replaceBackground'),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the background. ${errorMessage}`);
+        setError({
+            message: `Failed to apply the background. ${errorMessage}`,
+            cause: err,
+            prompt: backgroundPrompt,
+            retry: (nextPrompt = backgroundPrompt) => handleApplyBackgroundPrompt(nextPrompt),
+        });
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, variationCount, addResultsToHistory, startRequest]);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Please select an area to crop.');
-        return;
+  const handleApplyBackgroundImage = useCallback(async (backgroundFile: File) => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to apply a background to.' });
+      return;
+    }
+    
+    setIsLoading(true);
+    setLoadingMessage(variationCount > 1 ? `Generating ${variationCount} variations...` : 'Compositing images...');
+    setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
+    
+    try {
+        const newImageFiles = await generateVariants(variationCount, variant => compositeWithBackground(currentImage, backgroundFile, { ...requestOptions, variant }), 'composited');
+        await addResultsToHistory(newImageFiles, {
+            operation: 'background',
+            parameters: { mode: 'upload', backgroundFileName: backgroundFile.name },
+            inputs: { background: backgroundFile },
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('composite'),
+        });
+    } catch (err) {
+        if (isAbortError(err)) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({
+            message: `Failed to apply the background. ${errorMessage}`,
+            cause: err,
+            retry: () => handleApplyBackgroundImage(backgroundFile),
+        });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
     }
+  }, [currentImage, variationCount, addResultsToHistory, startRequest]);
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
+  const handleRemoveBackground = useCallback(async () => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to remove the background from.' });
+      return;
+    }
     
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+    setIsLoading(true);
+    setLoadingMessage('Finding the main subject...');
+    setError(null);
+    const requestOptions = startRequest();
+    
+    try {
+        const maskUrl = await generateSubjectMask(currentImage, requestOptions);
+        setCutoutMask(dataURLtoFile(maskUrl, `subject-mask-${Date.now()}.png`));
+    } catch (err) {
+        if (isAbortError(err)) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to find the subject. ${errorMessage}`, cause: err, retry: () => handleRemoveBackground() });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, startRequest]);
+
+  const handleApplyCutout = useCallback(async () => {
+    if (!currentImage) {
+      setError({ message: 'No image loaded to remove the background from.' });
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadingMessage('Cutting out the subject...');
+    setError(null);
 
-    if (!ctx) {
-        setError('Could not process the crop.');
+    try {
+        const mask = await cutoutMaskRef.current?.toMaskFile();
+        if (!mask) {
+            setError({ message: 'Nothing is selected to keep. Brush over the subject before applying the cutout.' });
+            return;
+        }
+        const cutoutUrl = await applyAlphaMask(currentImage, mask);
+        await addImageToHistory(dataURLtoFile(cutoutUrl, `cutout-${Date.now()}.png`), {
+            operation: 'background',
+            parameters: { mode: 'remove', feather: cutoutFeather },
+            model: getModelLabel('segment'),
+        });
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to remove the background. ${errorMessage}` });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, cutoutFeather, addImageToHistory]);
+
+  const handleApplyCrop = useCallback(async () => {
+    if (!currentImage) return;
+    // A rotation or flip can be applied on its own, keeping the whole image.
+    const selection = completedCrop?.width && completedCrop.height
+        ? completedCrop
+        : { x: 0, y: 0, width: 100, height: 100 };
+    if (selection.width === 100 && selection.height === 100 && isIdentityTransform(cropTransform)) {
+        setError({ message: 'Please select an area to crop.' });
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
+    setError(null);
+    try {
+        const image = await loadImage(currentImage);
+        const source = drawTransformed(image, image.naturalWidth, image.naturalHeight, cropTransform);
+
+        // The crop is kept in percentages, which stay correct however far the viewport is zoomed.
+        const x = Math.round(selection.x / 100 * source.width);
+        const y = Math.round(selection.y / 100 * source.height);
+        const width = Math.max(1, Math.min(source.width - x, Math.round(selection.width / 100 * source.width)));
+        const height = Math.max(1, Math.min(source.height - y, Math.round(selection.height / 100 * source.height)));
 
-  }, [completedCrop, addImageToHistory]);
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+        const newImageFile = await canvasToFile(canvas, `cropped-${Date.now()}.png`);
+        await addImageToHistory(newImageFile, {
+            operation: 'crop',
+            parameters: {
+                x, y, width, height, aspect,
+                ...(isIdentityTransform(cropTransform) ? {} : { transform: cropTransform }),
+            },
+        });
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Could not process the crop. ${errorMessage}` });
+        console.error(err);
+    }
+  }, [currentImage, completedCrop, cropTransform, aspect, addImageToHistory]);
+
+  // Layer changes apply to the current step in place and are saved once they settle.
+  // The stack stays as it is; it is only flattened when a single image is needed.
+  const handleLayersChange = useCallback((layers: Layer[]) => {
+    if (!currentEntry?.layers) return;
+    const stack: LayerStack = { ...currentEntry.layers, layers, edited: true };
+    setHistory(current => current.map(entry => entry.id === currentEntry.id ? { ...entry, layers: stack } : entry));
+    setLayerEdit({ entryId: currentEntry.id, stack });
+  }, [currentEntry]);
+
+  useEffect(() => {
+    if (!layerEdit || !projectId) return;
+    const { entryId, stack } = layerEdit;
+    const timer = setTimeout(() => {
+        const entry = historyRef.current.find(e => e.id === entryId);
+        if (!entry || entry.layers !== stack) return;
+        updateHistoryEntry(projectId, entry)
+            .catch(err => console.error('Failed to save the layers.', err));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [layerEdit, projectId]);
+
+  const handleEditLayerMask = useCallback((layerId: string) => {
+    const layer = currentEntry?.layers?.layers.find(l => l.id === layerId);
+    if (!layer) return;
+    if (layer.mask) {
+        setLayerMaskStart(layer.mask);
+    } else {
+        // Starts fully shown; the mask canvas stretches this single pixel to the image.
+        const { canvas, ctx } = createCanvas(1, 1);
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, 1, 1);
+        setLayerMaskStart(undefined);
+        canvasToFile(canvas, 'mask.png').then(setLayerMaskStart);
+    }
+    setMaskLayerId(layerId);
+  }, [currentEntry]);
+
+  const handleFinishLayerMask = useCallback(async () => {
+    const layers = currentEntry?.layers?.layers;
+    if (!layers || !maskLayerId || !imageSize) return;
+    let mask = await layerMaskRef.current?.toMaskFile() ?? null;
+    if (!mask) {
+        // Everything was erased, which hides the whole layer.
+        const { canvas, ctx } = createCanvas(imageSize.width, imageSize.height);
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        mask = await canvasToFile(canvas, `mask-${Date.now()}.png`);
+    }
+    handleLayersChange(layers.map(layer => layer.id === maskLayerId ? { ...layer, mask } : layer));
+    setMaskLayerId(null);
+  }, [currentEntry, maskLayerId, imageSize, handleLayersChange]);
+
+  // Starts a centred selection of the new shape so the ratio is visible straight away.
+  const handleSetAspect = useCallback((value: number | undefined) => {
+    setAspect(value);
+    if (!value || !cropContentSize) return;
+    const { width, height } = cropContentSize;
+    const next = centerCrop(makeAspectCrop({ unit: '%', width: 90 }, value, width, height), width, height);
+    setCrop(next);
+    setCompletedCrop(next);
+  }, [cropContentSize]);
+
+  const handleCropSizeChange = useCallback((size: { width: number, height: number }) => {
+    if (!cropContentSize) return;
+    // Shrinks both sides alike so a fixed ratio survives sizes larger than the image.
+    const fit = Math.min(1, cropContentSize.width / size.width, cropContentSize.height / size.height);
+    const width = size.width * fit / cropContentSize.width * 100;
+    const height = size.height * fit / cropContentSize.height * 100;
+    const centerX = completedCrop?.width ? completedCrop.x + completedCrop.width / 2 : 50;
+    const centerY = completedCrop?.height ? completedCrop.y + completedCrop.height / 2 : 50;
+    const next: PercentCrop = {
+        unit: '%',
+        x: Math.min(Math.max(centerX - width / 2, 0), 100 - width),
+        y: Math.min(Math.max(centerY - height / 2, 0), 100 - height),
+        width,
+        height,
+    };
+    setCrop(next);
+    setCompletedCrop(next);
+  }, [cropContentSize, completedCrop]);
+
+  const handleCropTransformChange = useCallback((transform: ImageTransform) => {
+    // Turning or flipping the image moves everything under the selection, so it is cleared.
+    if (transform.quarterTurns !== cropTransform.quarterTurns
+        || transform.flipHorizontal !== cropTransform.flipHorizontal
+        || transform.flipVertical !== cropTransform.flipVertical) {
+        setCrop(undefined);
+        setCompletedCrop(undefined);
+    }
+    setCropTransform(transform);
+  }, [cropTransform]);
+
+  const handleAutoStraighten = useCallback(async (): Promise<boolean> => {
+    if (!currentImage) return false;
+    try {
+        // Measured on the image as currently turned and flipped, before any free rotation.
+        const image = await loadImage(currentImage);
+        const scale = Math.min(1, 1024 / Math.max(image.naturalWidth, image.naturalHeight));
+        const level = drawTransformed(image, image.naturalWidth, image.naturalHeight, { ...cropTransform, rotation: 0 }, scale);
+        const angle = detectStraightenAngle(level, level.width, level.height);
+        if (angle === null) return false;
+        setCropTransform(transform => ({ ...transform, rotation: angle }));
+        return true;
+    } catch (err) {
+        console.error(err);
+        return false;
+    }
+  }, [currentImage, cropTransform]);
   
   const handleDetectObjects = useCallback(async () => {
     if (!currentImage) {
-      setError('No image loaded to detect objects in.');
+      setError({ message: 'No image loaded to detect objects in.' });
       return;
     }
 
     setIsLoading(true);
+    setIsDetecting(true);
     setLoadingMessage('Detecting objects...');
     setError(null);
+    const requestOptions = startRequest();
     setDetectedObjects([]);
     setSelectedObjectId(null);
     setHoveredObjectId(null);
 
     try {
-        const objects = await detectObjects(currentImage);
+        const objects = await detectObjects(currentImage, requestOptions);
         const objectsWithId = objects.map((obj, i) => ({ ...obj, id: `${Date.now()}-${i}` }));
         setDetectedObjects(objectsWithId);
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to detect objects. ${errorMessage}`);
+        setError({ message: `Failed to detect objects. ${errorMessage}`, cause: err, retry: () => handleDetectObjects() });
         console.error(err);
     } finally {
         setIsLoading(false);
+        setIsDetecting(false);
     }
-  }, [currentImage]);
+  }, [currentImage, startRequest]);
 
-  const handleGenerateObjectEdit = useCallback(async (prompt: string, objectId: string) => {
+  const handleGenerateObjectEdit = useCallback(async (prompt: string, objectId: string, options: ObjectEditOptions) => {
     if (!currentImage) {
-      setError('No image loaded to edit.');
+      setError({ message: 'No image loaded to edit.' });
       return;
     }
     const object = detectedObjects.find(o => o.id === objectId);
     if (!object) {
-      setError('Could not find the selected object to edit.');
+      setError({ message: 'Could not find the selected object to edit.' });
       return;
     }
 
     setIsLoading(true);
     setLoadingMessage('Editing selected object...');
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
     
     try {
-        const editedImageUrl = await generateObjectEdit(currentImage, prompt, object);
+        const generatedImageUrl = await generateObjectEdit(currentImage, prompt, object, requestOptions);
+        // Unless the user opted for the full frame, only the object's box is taken from the result.
+        const editedImageUrl = options.confineToBox
+            ? await compositeRegion(currentImage, generatedImageUrl, object.box, options.feather)
+            : generatedImageUrl;
         const newImageFile = dataURLtoFile(editedImageUrl, `object-edit-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        await addImageToHistory(newImageFile, {
+            operation: 'object-edit',
+            prompt,
+            parameters: { label: object.label, box: object.box, ...options },
+            durationMs: performance.now() - startedAt,
+            model: getModelLabel('objectEdit'),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to edit the object. ${errorMessage}`);
+        setError({
+            message: `Failed to edit the object. ${errorMessage}`,
+            cause: err,
+            prompt,
+            retry: (nextPrompt = prompt) => handleGenerateObjectEdit(nextPrompt, objectId, options),
+        });
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, detectedObjects, addImageToHistory]);
+  }, [currentImage, detectedObjects, addImageToHistory, startRequest]);
+
+  const handleRecordRecipe = useCallback(async (name: string) => {
+    const { recipe, skipped } = await createRecipeFromHistory(name, historyPath.slice(0, historyIndex + 1));
+    saveRecipe(recipe);
+    setRecipes(listRecipes());
+    return { recorded: recipe.steps.length, skipped: skipped.length };
+  }, [historyPath, historyIndex]);
+
+  const handleSaveRecipe = useCallback((recipe: Recipe) => {
+    saveRecipe(recipe);
+    setRecipes(listRecipes());
+  }, []);
+
+  const handleDeleteRecipe = useCallback((id: string) => {
+    deleteRecipe(id);
+    setRecipes(listRecipes());
+  }, []);
+
+  // Runs up to `count` recipe steps, adding each result to history so the user can follow along.
+  // A failing step pauses the run instead of discarding the steps that already succeeded.
+  const handleRunRecipeSteps = useCallback(async (count: number) => {
+    if (!recipeRun || !currentImage || !currentId) return;
+    const { recipe } = recipeRun;
+    const lastIndex = Math.min(recipeRun.stepIndex + count, recipe.steps.length);
+    let image = currentImage;
+    let parentId = currentId;
+    let stepIndex = recipeRun.stepIndex;
+
+    setIsLoading(true);
+    setError(null);
+    const requestOptions = startRequest();
+    try {
+        for (; stepIndex < lastIndex; stepIndex++) {
+            setRecipeRun({ recipe, stepIndex, status: 'running' });
+            setLoadingMessage(`Recipe step ${stepIndex + 1} of ${recipe.steps.length}: ${operationLabels[recipe.steps[stepIndex].operation]}...`);
+            const startedAt = performance.now();
+            const { file, details } = await runRecipeStep(image, recipe.steps[stepIndex], requestOptions);
+            const entry = await addImageToHistory(file, { ...details, durationMs: performance.now() - startedAt }, parentId);
+            image = entry.file;
+            parentId = entry.id;
+        }
+        setRecipeRun({ recipe, stepIndex, status: stepIndex >= recipe.steps.length ? 'done' : 'paused' });
+    } catch (err) {
+        if (isAbortError(err)) {
+            setRecipeRun({ recipe, stepIndex, status: 'paused' });
+            return;
+        }
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setRecipeRun({ recipe, stepIndex, status: 'failed', error: errorMessage });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [recipeRun, currentImage, currentId, addImageToHistory, startRequest]);
+
+  const handleSkipRecipeStep = useCallback(() => {
+    setRecipeRun(run => {
+        if (!run) return run;
+        const stepIndex = run.stepIndex + 1;
+        return { recipe: run.recipe, stepIndex, status: stepIndex >= run.recipe.steps.length ? 'done' : 'paused' };
+    });
+  }, []);
+
+  // Asks the model for a fresh take on the current step, skipping any cached result.
+  // The new result becomes a sibling of the current one, so both stay in history.
+  const handleRegenerate = useCallback(async () => {
+    const parent = currentEntry?.parentId ? history.find(entry => entry.id === currentEntry.parentId) : undefined;
+    if (!currentEntry || !parent) return;
+
+    setIsLoading(true);
+    setLoadingMessage('Regenerating...');
+    setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
+    try {
+        // A picked variation keeps its own cached result, so its replacement overwrites that one.
+        const variant = typeof currentEntry.parameters?.variant === 'number' ? currentEntry.parameters.variant - 1 : undefined;
+        const { file, details } = await replayHistoryStep(currentEntry, await getStepImage(parent), { ...requestOptions, regenerate: true, variant });
+        await addImageToHistory(file, { ...details, durationMs: performance.now() - startedAt }, parent.id);
+    } catch (err) {
+        if (isAbortError(err)) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to regenerate the image. ${errorMessage}`, cause: err, retry: () => handleRegenerate() });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentEntry, history, addImageToHistory, startRequest]);
 
   const handleUndo = useCallback(() => {
     if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      resetInteractionState();
+      moveTo(historyPath[historyIndex - 1].id);
     }
-  }, [canUndo, historyIndex, resetInteractionState]);
+  }, [canUndo, historyPath, historyIndex, moveTo]);
   
   const handleRedo = useCallback(() => {
     if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      resetInteractionState();
+      moveTo(historyPath[historyIndex + 1].id);
     }
-  }, [canRedo, historyIndex, resetInteractionState]);
+  }, [canRedo, historyPath, historyIndex, moveTo]);
 
   const handleReset = useCallback(() => {
-    if (history.length > 0) {
-      setHistoryIndex(0);
+    if (historyPath.length > 0) {
+      moveTo(historyPath[0].id);
       setError(null);
-      resetInteractionState();
     }
-  }, [history, resetInteractionState]);
+  }, [historyPath, moveTo]);
+
+  const handleJumpTo = useCallback((index: number) => {
+    const entry = historyPath[index];
+    if (entry && entry.id !== currentId) {
+      moveTo(entry.id);
+    }
+  }, [historyPath, currentId, moveTo]);
+
+  const handleSwitchBranch = useCallback((leafId: string) => {
+    if (leafId !== tipId) {
+      moveTo(leafId, leafId);
+    }
+  }, [tipId, moveTo]);
 
   const handleUploadNew = useCallback(() => {
+      // The project stays saved and can be reopened from the start screen.
       setHistory([]);
-      setHistoryIndex(-1);
+      setCurrentId(null);
+      setTipId(null);
+      setVariantSets([]);
+      setProjectId(null);
       setError(null);
       setPrompt('');
+      setOverlayItems([]);
+      setSelectedOverlayId(null);
       resetInteractionState();
   }, [resetInteractionState]);
 
-  const handleDownload = useCallback(() => {
-      if (currentImage) {
-          setIsDownloadPanelOpen(false);
+  const handleDownload = useCallback(async () => {
+      if (!currentEntry) return;
+      setIsDownloadPanelOpen(false);
+      try {
+          const file = await withExportWatermark(await getStepImage(currentEntry));
           const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `edited-${currentImage.name}`;
+          link.href = URL.createObjectURL(file);
+          link.download = `edited-${file.name}`;
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
           URL.revokeObjectURL(link.href);
+      } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+          setError({ message: `Failed to download the image. ${errorMessage}` });
+          console.error(err);
       }
-  }, [currentImage]);
+  }, [currentEntry, withExportWatermark]);
   
-  const handleUpscale = useCallback(async (resolution: Resolution) => {
-    if (!currentImage) {
-        setError('No image available to upscale.');
+  const handleDownloadTransparent = useCallback(async (format: TransparentFormat) => {
+      if (!currentEntry) return;
+      setIsDownloadPanelOpen(false);
+      try {
+          const image = await getStepImage(currentEntry);
+          const img = await loadImage(await withExportWatermark(image));
+          const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+          ctx.drawImage(img, 0, 0);
+          const baseName = image.name.replace(/\.[^.]+$/, '');
+          const file = await canvasToFile(canvas, `transparent-${baseName}.${format}`, `image/${format}`, format === 'webp' ? 0.9 : undefined);
+          const link = document.createElement('a');
+          link.href = URL.createObjectURL(file);
+          link.download = file.name;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(link.href);
+      } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+          setError({ message: `Failed to export the image. ${errorMessage}` });
+          console.error(err);
+      }
+  }, [currentEntry, withExportWatermark]);
+
+  const handleOpenExport = useCallback(async () => {
+      if (!currentEntry) return;
+      setIsDownloadPanelOpen(false);
+      try {
+          setExportImage(await withExportWatermark(await getStepImage(currentEntry)));
+      } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+          setError({ message: `Failed to export the image. ${errorMessage}` });
+          console.error(err);
+      }
+  }, [currentEntry, withExportWatermark]);
+  
+  const handleExport = useCallback((file: File) => {
+      setExportImage(null);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(file);
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+  }, []);
+
+  const handleUpscale = useCallback(async (resolution: Resolution, method: UpscaleMethod) => {
+    if (!currentEntry) {
+        setError({ message: 'No image available to upscale.' });
         return;
     }
     setIsDownloadPanelOpen(false);
     setIsLoading(true);
     setLoadingMessage(`Upscaling image to ${resolution}...`);
     setError(null);
+    const requestOptions = startRequest();
+    const startedAt = performance.now();
 
     try {
-        const upscaledImageUrl = await upscaleImage(currentImage, resolution);
-        // Trigger download for the upscaled image
+        const source = await getStepImage(currentEntry);
+        const upscaledImage = await upscaleImage(source, resolution, {
+            ...requestOptions,
+            method,
+            onProgress: ({ completed, total }) => {
+                if (total > 1) setLoadingMessage(`Upscaling image to ${resolution}... tile ${Math.min(completed + 1, total)} of ${total}`);
+            },
+        });
+        setUpscaleResult({
+            file: upscaledImage,
+            source,
+            sourceId: currentEntry.id,
+            resolution,
+            method,
+            durationMs: performance.now() - startedAt,
+        });
+    } catch (err) {
+        if (isAbortError(err)) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to upscale the image. ${errorMessage}`, cause: err, retry: () => handleUpscale(resolution, method) });
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentEntry, startRequest]);
+
+  const handleKeepUpscale = useCallback(async () => {
+    if (!upscaleResult) return;
+    const { file, sourceId, resolution, method, durationMs } = upscaleResult;
+    await addImageToHistory(file, {
+        operation: 'upscale',
+        parameters: { resolution, method },
+        durationMs,
+        model: method === 'model' ? getModelLabel('upscale') : undefined,
+    }, sourceId);
+    setUpscaleResult(null);
+  }, [upscaleResult, addImageToHistory]);
+
+  const handleDownloadUpscale = useCallback(async () => {
+    if (!upscaleResult) return;
+    const { file, source, resolution } = upscaleResult;
+    try {
         const link = document.createElement('a');
-        link.href = upscaledImageUrl;
-        link.download = `upscaled-${resolution}-${currentImage.name}`;
+        link.href = URL.createObjectURL(await withExportWatermark(file));
+        link.download = `upscaled-${resolution}-${source.name.replace(/\.[^.]+$/, '')}.png`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to upscale the image. ${errorMessage}`);
+        setError({ message: `Failed to download the upscaled image. ${errorMessage}` });
         console.error(err);
-    } finally {
-        setIsLoading(false);
     }
-  }, [currentImage]);
+  }, [upscaleResult, withExportWatermark]);
 
-  const handleFileSelect = (files: FileList | null) => {
-    if (files && files[0]) {
+  const handleFileSelect = (files: File[]) => {
+    if (files.length > 1) {
+      setBatchFiles(files);
+    } else if (files[0]) {
       handleImageUpload(files[0]);
     }
   };
 
   const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
     if (activeTab === 'retouch') {
+        // Mapped through the on-screen rectangle, which includes the viewport's zoom and pan.
         const img = e.currentTarget;
-        const rect = img.getBoundingClientRect();
-
-        const offsetX = e.clientX - rect.left;
-        const offsetY = e.clientY - rect.top;
-        
-        setDisplayHotspot({ x: offsetX, y: offsetY });
-
-        const { naturalWidth, naturalHeight, clientWidth, clientHeight } = img;
-        const scaleX = naturalWidth / clientWidth;
-        const scaleY = naturalHeight / clientHeight;
-
-        const originalX = Math.round(offsetX * scaleX);
-        const originalY = Math.round(offsetY * scaleY);
-
-        setEditHotspot({ x: originalX, y: originalY });
+        const point = clientToImagePoint(img, img.naturalWidth, img.naturalHeight, e.clientX, e.clientY);
+        if (point) {
+            setEditHotspot({ x: Math.round(point.x), y: Math.round(point.y) });
+        }
     } else if (activeTab === 'objects') {
         // Clicking on the image itself (not a box) will deselect any selected object.
         // The box's onClick has stopPropagation, so this only fires on the image.
@@ -450,34 +1453,24 @@ const App: React.FC = () => {
 };
 
   const renderContent = () => {
-    if (error) {
-       return (
-           <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-red-300">An Error Occurred</h2>
-            <p className="text-md text-red-400">{error}</p>
-            <button
-                onClick={() => setError(null)}
-                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
-        );
+    if (batchFiles) {
+      return <BatchScreen files={batchFiles} onExit={() => setBatchFiles(null)} />;
     }
-    
+
     if (!currentImageUrl) {
-      return <StartScreen onFileSelect={handleFileSelect} />;
+      return <StartScreen onFileSelect={handleFileSelect} projects={projects} onOpenProject={handleOpenProject} onDeleteProject={handleDeleteProject} />;
     }
 
+    const showsLayerPreview = !!currentEntry?.layers && (activeTab === 'layers' || !currentImage);
     const imageDisplay = (
-      <div className="relative" onMouseLeave={() => activeTab === 'objects' && setHoveredObjectId(null)}>
+      <div className="relative" style={currentHasTransparency ? checkerboardStyle : undefined} onMouseLeave={() => activeTab === 'objects' && setHoveredObjectId(null)}>
         {/* Base image is the original, always at the bottom */}
         {originalImageUrl && (
             <img
                 key={originalImageUrl}
                 src={originalImageUrl}
                 alt="Original"
-                className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
+                className={`w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none ${currentHasTransparency && !isComparing ? 'invisible' : ''}`}
             />
         )}
         {/* The current image is an overlay that fades in/out for comparison */}
@@ -487,8 +1480,63 @@ const App: React.FC = () => {
             src={currentImageUrl}
             alt="Current"
             onClick={handleImageClick}
-            className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing || previewProcess || showsLayerPreview ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
         />
+        {/* Live preview of the local adjustments or grade, rendered from the displayed image */}
+        {previewProcess && imageSize && imgRef.current && (
+            <AdjustmentPreview
+                image={imgRef.current}
+                process={previewProcess}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${isComparing ? 'invisible' : ''}`}
+            />
+        )}
+        {/* The layers, drawn while they are being rebalanced and until they are flattened */}
+        {showsLayerPreview && currentEntry?.layers && (
+            <LayerStackPreview
+                stack={currentEntry.layers}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${isComparing ? 'invisible' : ''}`}
+            />
+        )}
+        {activeTab === 'layers' && maskLayerId && imageSize && (
+            <MaskCanvas
+                ref={layerMaskRef}
+                key={`layer-mask-${maskLayerId}`}
+                naturalWidth={imageSize.width}
+                naturalHeight={imageSize.height}
+                brushSize={brushSize}
+                feather={feather}
+                mode={brushMode}
+                initialMask={layerMaskStart}
+                onMaskChange={() => undefined}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${isComparing ? 'invisible' : ''}`}
+            />
+        )}
+        {activeTab === 'overlays' && imageSize && (
+            <OverlayEditor
+                naturalWidth={imageSize.width}
+                naturalHeight={imageSize.height}
+                items={overlayItems}
+                onItemsChange={setOverlayItems}
+                selectedId={selectedOverlayId}
+                onSelect={setSelectedOverlayId}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${isComparing ? 'invisible' : ''}`}
+            />
+        )}
+        {/* Brush Mask Overlay */}
+        {activeTab === 'retouch' && retouchMode === 'mask' && imageSize && (
+            <MaskCanvas
+                ref={maskRef}
+                key={`mask-${currentImageUrl}`}
+                naturalWidth={imageSize.width}
+                naturalHeight={imageSize.height}
+                brushSize={brushSize}
+                feather={feather}
+                mode={brushMode}
+                onMaskChange={setHasMask}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${isComparing ? 'invisible' : ''}`}
+            />
+        )}
         {/* Bounding Boxes Overlay */}
         {activeTab === 'objects' && detectedObjects.length > 0 && (
             <div className="absolute top-0 left-0 w-full h-full pointer-events-none">
@@ -523,9 +1571,10 @@ const App: React.FC = () => {
                         onMouseEnter={() => setHoveredObjectId(obj.id)}
                     >
                       <span 
-                        className={`absolute -top-7 left-1/2 -translate-x-1/2 text-xs font-bold text-white bg-black/60 px-2 py-1 rounded-md transition-opacity duration-200 whitespace-nowrap capitalize
+                        className={`absolute bottom-full mb-1 left-1/2 origin-bottom text-xs font-bold text-white bg-black/60 px-2 py-1 rounded-md transition-opacity duration-200 whitespace-nowrap capitalize
                           ${isHovered || isSelected ? 'opacity-100' : 'opacity-0'}`
                         }
+                        style={{ transform: 'translateX(-50%) scale(calc(1 / var(--zoom)))' }}
                       >
                         {obj.label}
                       </span>
@@ -537,14 +1586,48 @@ const App: React.FC = () => {
       </div>
     );
     
-    // For ReactCrop, we need a single image element. We'll use the current one.
+    // While refining a cutout, the preview shows the result over a checkerboard with the mask painted on top.
+    const cutoutDisplay = (
+      <div className="relative" style={checkerboardStyle}>
+        <img
+            src={currentImageUrl}
+            alt=""
+            className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none invisible"
+        />
+        {cutoutPreviewUrl && (
+            <img
+                src={cutoutPreviewUrl}
+                alt="Cutout preview"
+                className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
+            />
+        )}
+        {imageSize && (
+            <MaskCanvas
+                ref={cutoutMaskRef}
+                key={`cutout-${currentImageUrl}`}
+                naturalWidth={imageSize.width}
+                naturalHeight={imageSize.height}
+                brushSize={brushSize}
+                feather={cutoutFeather}
+                mode={brushMode}
+                initialMask={cutoutMask ?? undefined}
+                onMaskChange={(hasCutout) => {
+                    setHasCutoutMask(hasCutout);
+                    setCutoutMaskVersion(version => version + 1);
+                }}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl ${showCutoutMask ? '' : '!opacity-0'}`}
+            />
+        )}
+      </div>
+    );
+    
+    // ReactCrop selects on the image as rotated and flipped, drawn to a canvas.
     const cropImageElement = (
-      <img 
-        ref={imgRef}
-        key={`crop-${currentImageUrl}`}
-        src={currentImageUrl} 
-        alt="Crop this image"
-        className="w-full h-auto object-contain max-h-[60vh] rounded-xl"
+      <TransformPreview
+        image={displayedImage}
+        transform={cropTransform}
+        onLoad={setImageSize}
+        className="w-full h-auto max-h-[60vh] rounded-xl"
       />
     );
 
@@ -556,33 +1639,49 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 bg-black/70 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in">
                     <Spinner />
                     <p className="text-gray-300">{loadingMessage}</p>
+                    {requestController && (
+                        <button
+                            onClick={() => requestController.abort()}
+                            className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 active:scale-95 text-sm"
+                        >
+                            Cancel
+                        </button>
+                    )}
                 </div>
             )}
             
-            {activeTab === 'crop' ? (
-              <ReactCrop 
-                crop={crop} 
-                onChange={c => setCrop(c)} 
-                onComplete={c => setCompletedCrop(c)}
-                aspect={aspect}
-                className="max-h-[60vh]"
-              >
-                {cropImageElement}
-              </ReactCrop>
-            ) : imageDisplay }
-
-            {displayHotspot && !isLoading && activeTab === 'retouch' && (
-                <div 
-                    className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
-                    style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
+            <ZoomViewport contentSize={activeTab === 'crop' ? cropContentSize : imageSize} minimapUrl={currentImageUrl}>
+              {activeTab === 'crop' ? (
+                <ReactCrop 
+                  crop={crop} 
+                  onChange={(_, percentCrop) => setCrop(percentCrop)} 
+                  onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
+                  aspect={aspect}
+                  renderSelectionAddon={() => <CropGuides guide={cropGuide} />}
+                  className="max-h-[60vh]"
                 >
-                    <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>
-                </div>
-            )}
+                  {cropImageElement}
+                </ReactCrop>
+              ) : activeTab === 'background' && cutoutMask ? cutoutDisplay : imageDisplay }
+
+              {/* Placed in image coordinates so it stays on the same pixel while zooming; the marker itself keeps its size. */}
+              {editHotspot && imageSize && !isLoading && activeTab === 'retouch' && retouchMode === 'point' && (
+                  <div 
+                      className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none z-10"
+                      style={{
+                          left: `${editHotspot.x / imageSize.width * 100}%`,
+                          top: `${editHotspot.y / imageSize.height * 100}%`,
+                          transform: 'translate(-50%, -50%) scale(calc(1 / var(--zoom)))',
+                      }}
+                  >
+                      <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>
+                  </div>
+              )}
+            </ZoomViewport>
         </div>
         
         <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-md">
-            {(['retouch', 'objects', 'crop', 'adjust', 'filters', 'background'] as Tab[]).map(tab => (
+            {(['retouch', 'objects', 'crop', 'adjust', 'filters', 'styles', 'background', 'layers', 'overlays', 'recipes'] as Tab[]).map(tab => (
                  <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -597,25 +1696,43 @@ const App: React.FC = () => {
             ))}
         </div>
         
-        <div className="w-full">
+        <div className="w-full flex flex-col gap-4">
+            {(activeTab === 'retouch' || (activeTab === 'adjust' && adjustmentMode === 'ai') || (activeTab === 'filters' && filterMode === 'ai') || activeTab === 'styles' || (activeTab === 'background' && !cutoutMask)) && (
+                <VariationCountPicker value={variationCount} onChange={setVariationCount} isLoading={isLoading} />
+            )}
             {activeTab === 'retouch' && (
                 <div className="flex flex-col items-center gap-4">
+                    <RetouchToolbar
+                        mode={retouchMode}
+                        onModeChange={setRetouchMode}
+                        brushMode={brushMode}
+                        onBrushModeChange={setBrushMode}
+                        brushSize={brushSize}
+                        onBrushSizeChange={setBrushSize}
+                        feather={feather}
+                        onFeatherChange={setFeather}
+                        hasMask={hasMask}
+                        onClearMask={() => maskRef.current?.clear()}
+                        isLoading={isLoading}
+                    />
                     <p className="text-md text-gray-400">
-                        {editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.'}
+                        {retouchMode === 'mask'
+                            ? (hasMask ? 'Great! Now describe the edit for the painted area.' : 'Paint over the area of the image you want to change.')
+                            : (editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.')}
                     </p>
                     <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-2">
                         <input
                             type="text"
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
-                            placeholder={editHotspot ? "e.g., 'change my shirt color to blue'" : "First click a point on the image"}
+                            placeholder={hasEditTarget ? "e.g., 'change my shirt color to blue'" : (retouchMode === 'mask' ? "First paint an area on the image" : "First click a point on the image")}
                             className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-5 text-lg focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
-                            disabled={isLoading || !editHotspot}
+                            disabled={isLoading || !hasEditTarget}
                         />
                         <button 
                             type="submit"
                             className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-5 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                            disabled={isLoading || !prompt.trim() || !editHotspot}
+                            disabled={isLoading || !prompt.trim() || !hasEditTarget}
                         >
                             Generate
                         </button>
@@ -624,8 +1741,8 @@ const App: React.FC = () => {
             )}
             {activeTab === 'objects' && <ObjectPanel 
                 objects={detectedObjects}
-                isLoading={isLoading && loadingMessage.startsWith('Detecting')}
-                isEditing={isLoading && !loadingMessage.startsWith('Detecting')}
+                isLoading={isDetecting}
+                isEditing={isLoading && !isDetecting}
                 onDetect={handleDetectObjects}
                 selectedObjectId={selectedObjectId}
                 hoveredObjectId={hoveredObjectId}
@@ -633,12 +1750,120 @@ const App: React.FC = () => {
                 onHoverObject={setHoveredObjectId}
                 onGenerateEdit={handleGenerateObjectEdit}
             />}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} />}
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
-            {activeTab === 'background' && <BackgroundPanel onApplyBackground={handleApplyBackground} isLoading={isLoading} />}
+            {activeTab === 'crop' && <CropPanel
+              onApplyCrop={handleApplyCrop}
+              onSetAspect={handleSetAspect}
+              isLoading={isLoading}
+              isCropping={(!!completedCrop?.width && completedCrop.width > 0) || !isIdentityTransform(cropTransform)}
+              cropSize={cropSize}
+              onCropSizeChange={handleCropSizeChange}
+              transform={cropTransform}
+              onTransformChange={handleCropTransformChange}
+              onAutoStraighten={handleAutoStraighten}
+              guide={cropGuide}
+              onGuideChange={setCropGuide}
+            />}
+            {activeTab === 'adjust' && <AdjustmentPanel
+                mode={adjustmentMode}
+                onModeChange={setAdjustmentMode}
+                settings={adjustmentSettings}
+                onSettingsChange={setAdjustmentSettings}
+                onApplySettings={handleApplyLocalAdjustment}
+                onApplyAdjustment={handleApplyAdjustment}
+                isLoading={isLoading}
+            />}
+            {activeTab === 'filters' && <FilterPanel
+                mode={filterMode}
+                onModeChange={setFilterMode}
+                grade={colorGrade}
+                onGradeChange={setColorGrade}
+                onApplyGrade={handleApplyGrade}
+                onApplyFilter={handleApplyFilter}
+                isLoading={isLoading}
+            />}
+            {activeTab === 'styles' && <StylesPanel onApplyStyle={handleApplyStyle} sourceImage={currentImage} isLoading={isLoading} />}
+            {activeTab === 'background' && (cutoutMask ? (
+                <CutoutPanel
+                    brushMode={brushMode}
+                    onBrushModeChange={setBrushMode}
+                    brushSize={brushSize}
+                    onBrushSizeChange={setBrushSize}
+                    feather={cutoutFeather}
+                    onFeatherChange={setCutoutFeather}
+                    showMask={showCutoutMask}
+                    onShowMaskChange={setShowCutoutMask}
+                    hasMask={hasCutoutMask}
+                    onApply={handleApplyCutout}
+                    onCancel={() => setCutoutMask(null)}
+                    isLoading={isLoading}
+                />
+            ) : (
+                <BackgroundPanel
+                    onApplyBackgroundPrompt={handleApplyBackgroundPrompt}
+                    onApplyBackgroundImage={handleApplyBackgroundImage}
+                    onRemoveBackground={handleRemoveBackground}
+                    isLoading={isLoading}
+                />
+            ))}
+            {activeTab === 'layers' && <LayerPanel
+                layers={currentEntry?.layers?.layers ?? null}
+                onLayersChange={handleLayersChange}
+                maskLayerId={maskLayerId}
+                onEditMask={handleEditLayerMask}
+                onFinishMask={handleFinishLayerMask}
+                onCancelMask={() => setMaskLayerId(null)}
+                brushMode={brushMode}
+                onBrushModeChange={setBrushMode}
+                brushSize={brushSize}
+                onBrushSizeChange={setBrushSize}
+                feather={feather}
+                onFeatherChange={setFeather}
+                isLoading={isLoading}
+            />}
+            {activeTab === 'overlays' && <OverlayPanel
+                items={overlayItems}
+                onItemsChange={setOverlayItems}
+                selectedId={selectedOverlayId}
+                onSelect={setSelectedOverlayId}
+                onApply={handleApplyOverlays}
+                presets={watermarks}
+                onSavePreset={handleSaveWatermark}
+                onDeletePreset={handleDeleteWatermark}
+                isLoading={isLoading}
+            />}
+            {activeTab === 'recipes' && <RecipePanel
+                recipes={recipes}
+                onRecord={handleRecordRecipe}
+                onSave={handleSaveRecipe}
+                onDelete={handleDeleteRecipe}
+                run={recipeRun}
+                onStartRun={(recipe) => setRecipeRun({ recipe, stepIndex: 0, status: 'ready' })}
+                onRunSteps={handleRunRecipeSteps}
+                onSkipStep={handleSkipRecipeStep}
+                onStopRun={() => setRecipeRun(null)}
+                canRecord={historyIndex > 0}
+                isLoading={isLoading}
+            />}
         </div>
         
+        <HistoryTimeline
+            entries={historyPath}
+            allEntries={history}
+            currentIndex={historyIndex}
+            onSelect={handleJumpTo}
+            isLoading={isLoading}
+        />
+
+        {branchTips.length > 1 && (
+            <BranchPanel
+                entries={history}
+                branchTips={branchTips}
+                activeTipId={tipId}
+                onSwitchBranch={handleSwitchBranch}
+                isLoading={isLoading}
+            />
+        )}
+
         <div className="flex flex-wrap items-center justify-center gap-3">
             <button 
                 onClick={handleUndo}
@@ -676,6 +1901,36 @@ const App: React.FC = () => {
                   Compare
               </button>
             )}
+            {history.length > 1 && (
+              <button 
+                  onClick={() => setIsCompareViewOpen(true)}
+                  disabled={isLoading}
+                  className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  Compare Steps
+              </button>
+            )}
+
+            {currentEntry?.model && currentEntry.parentId && canReplay(currentEntry) && (
+              <button
+                  onClick={handleRegenerate}
+                  disabled={isLoading}
+                  className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Ask the model again instead of reusing a cached result"
+              >
+                  Regenerate
+              </button>
+            )}
+
+            {variantSets.length > 0 && (
+              <button
+                  onClick={() => setActiveVariantSetId(variantSets[variantSets.length - 1].id)}
+                  disabled={isLoading}
+                  className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  Variations ({variantSets.length})
+              </button>
+            )}
 
             <button 
                 onClick={handleReset}
@@ -702,20 +1957,75 @@ const App: React.FC = () => {
                     <ChevronDownIcon className={`w-5 h-5 ml-2 transition-transform ${isDownloadPanelOpen ? 'rotate-180' : ''}`} />
                 </button>
                 {isDownloadPanelOpen && (
-                    <DownloadPanel onDownloadCurrent={handleDownload} onUpscale={handleUpscale} />
+                    <DownloadPanel
+                        onDownloadCurrent={handleDownload}
+                        onUpscale={handleUpscale}
+                        hasTransparency={currentHasTransparency}
+                        onDownloadTransparent={handleDownloadTransparent}
+                        onOpenExport={handleOpenExport}
+                        watermarks={watermarks}
+                        exportWatermarkId={exportWatermarkId}
+                        onExportWatermarkChange={handleExportWatermarkChange}
+                    />
                 )}
             </div>
         </div>
+
+        {isCompareViewOpen && currentId && historyPath[0] && (
+            <CompareView
+                entries={history}
+                initialBeforeId={historyPath[0].id === currentId && historyPath.length > 1 ? historyPath[1].id : historyPath[0].id}
+                initialAfterId={currentId}
+                onClose={() => setIsCompareViewOpen(false)}
+            />
+        )}
+
+        {upscaleResult && (
+            <UpscaleReview
+                original={upscaleResult.source}
+                upscaled={upscaleResult.file}
+                resolutionLabel={upscaleResult.resolution}
+                onAddToHistory={handleKeepUpscale}
+                onDownload={handleDownloadUpscale}
+                onDiscard={() => setUpscaleResult(null)}
+            />
+        )}
+
+        {exportImage && (
+            <ExportDialog
+                image={exportImage}
+                metadataSource={originalImage}
+                hasTransparency={currentHasTransparency}
+                onExport={handleExport}
+                onClose={() => setExportImage(null)}
+            />
+        )}
+
+        {activeVariantSetId && (
+            <VariantGrid
+                key={activeVariantSetId}
+                variantSets={variantSets}
+                activeSetId={activeVariantSetId}
+                onSelectSet={setActiveVariantSetId}
+                getSourceEntry={getHistoryEntry}
+                onChoose={handleChooseVariant}
+                onClose={() => setActiveVariantSetId(null)}
+                isLoading={isLoading}
+            />
+        )}
       </div>
     );
   };
   
   return (
     <div className="min-h-screen text-gray-100 flex flex-col">
-      <Header />
-      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${currentImage ? 'items-start' : 'items-center'}`}>
+      <Header onOpenSettings={() => setIsSettingsOpen(true)} />
+      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${displayedImage ? 'items-start' : 'items-center'}`}>
         {renderContent()}
       </main>
+      {/* Errors float over the editor so the image and its history stay in view */}
+      {error && <ErrorToast notice={error} onDismiss={() => setError(null)} />}
+      {isSettingsOpen && <SettingsDialog onClose={() => setIsSettingsOpen(false)} />}
     </div>
   );
 };
@@ -4,13 +4,25 @@
 */
 
 import React, { useState } from 'react';
+import { adjustmentControls, DEFAULT_ADJUSTMENTS, isNeutralAdjustment, type AdjustmentSettings } from '../utils/adjustments';
+
+export type AdjustmentMode = 'sliders' | 'ai';
 
 interface AdjustmentPanelProps {
+  mode: AdjustmentMode;
+  onModeChange: (mode: AdjustmentMode) => void;
+  /** Slider values, previewed live on the image until applied. */
+  settings: AdjustmentSettings;
+  onSettingsChange: (settings: AdjustmentSettings) => void;
+  /** Commits the slider values to history. Runs locally, without the model. */
+  onApplySettings: () => void;
   onApplyAdjustment: (prompt: string) => void;
   isLoading: boolean;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  mode, onModeChange, settings, onSettingsChange, onApplySettings, onApplyAdjustment, isLoading,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
@@ -45,8 +57,64 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     }
   };
 
+  const modeClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  const isNeutral = isNeutralAdjustment(settings);
+
   return (
     <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={() => onModeChange('sliders')} disabled={isLoading} className={modeClass(mode === 'sliders')}>Sliders</button>
+        <button onClick={() => onModeChange('ai')} disabled={isLoading} className={modeClass(mode === 'ai')}>AI Presets</button>
+      </div>
+
+      {mode === 'sliders' ? (
+        <>
+          <h3 className="text-lg font-semibold text-center text-gray-300">Fine-Tune the Image</h3>
+          <p className="text-sm text-gray-400 text-center -mt-2">Changes preview on the image and are applied on your device, so the content is never altered.</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+            {adjustmentControls.map(({ key, label, min, max }) => (
+              <label key={key} className="flex items-center gap-3 text-sm text-gray-400">
+                <span className="w-24">{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  value={settings[key]}
+                  onChange={(e) => onSettingsChange({ ...settings, [key]: Number(e.target.value) })}
+                  onDoubleClick={() => onSettingsChange({ ...settings, [key]: 0 })}
+                  disabled={isLoading}
+                  className="flex-grow accent-blue-500"
+                />
+                <span className="w-10 text-right text-gray-300">{settings[key]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onSettingsChange(DEFAULT_ADJUSTMENTS)}
+              disabled={isLoading || isNeutral}
+              className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-4 px-6 rounded-lg transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+            <button
+              onClick={onApplySettings}
+              disabled={isLoading || isNeutral}
+              className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+            >
+              Apply Adjustments
+            </button>
+          </div>
+        </>
+      ) : (
+      <>
       <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
@@ -82,6 +150,8 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             </button>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { getImagePixels } from '../utils/image';
+
+interface AdjustmentPreviewProps {
+  /** The displayed image element the preview is rendered from. */
+  image: HTMLImageElement;
+  /** Returns adjusted copies of the pixels; keep it stable between renders. */
+  process: (source: ImageData) => ImageData;
+  className?: string;
+}
+
+// Previews are rendered at screen size rather than full resolution to keep sliders responsive.
+const PREVIEW_MAX_SIZE = 1024;
+
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ image, process, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const source = useMemo(() => {
+    const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    return getImagePixels(image, width, height);
+  }, [image]);
+
+  useEffect(() => {
+    // Only the latest slider position is drawn when several arrive within one frame.
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      ctx?.putImageData(process(source), 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, process]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={source.width}
+      height={source.height}
+      className={`pointer-events-none ${className ?? ''}`}
+    />
+  );
+};
+
+export default AdjustmentPreview;
@@ -4,15 +4,27 @@
 */
 
 import React, { useState } from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
 
 interface BackgroundPanelProps {
-  onApplyBackgroundEffect: (prompt: string) => void;
+  /** Replaces the background with one generated from the prompt. */
+  onApplyBackgroundPrompt: (prompt: string) => void;
+  /** Places the subject onto an uploaded background image. */
+  onApplyBackgroundImage: (background: File) => void;
+  /** Finds the main subject so everything else can be made transparent. */
+  onRemoveBackground: () => void;
   isLoading: boolean;
 }
 
-const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onApplyBackgroundEffect, isLoading }) => {
+type BackgroundMode = 'generate' | 'upload' | 'remove';
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onApplyBackgroundPrompt, onApplyBackgroundImage, onRemoveBackground, isLoading }) => {
+  const [mode, setMode] = useState<BackgroundMode>('generate');
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
+  const [backgroundFile, setBackgroundFile] = useState<File | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const backgroundUrl = useObjectUrl(backgroundFile);
 
   const presets = [
     { name: 'Sunset', prompt: 'a beautiful sunset gradient from orange to deep purple', css: 'from-orange-500 via-red-500 to-purple-800' },
@@ -37,14 +49,71 @@ const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onApplyBackgroundEffe
 
   const handleApply = () => {
     if (activePrompt) {
-        onApplyBackgroundEffect(activePrompt);
+        onApplyBackgroundPrompt(activePrompt);
+    }
+  };
+
+  const handleBackgroundFile = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file && file.type.startsWith('image/')) {
+      setBackgroundFile(file);
     }
   };
 
+  const modeClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
   return (
     <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={() => setMode('generate')} disabled={isLoading} className={modeClass(mode === 'generate')}>Generate</button>
+        <button onClick={() => setMode('upload')} disabled={isLoading} className={modeClass(mode === 'upload')}>Upload Image</button>
+        <button onClick={() => setMode('remove')} disabled={isLoading} className={modeClass(mode === 'remove')}>Remove</button>
+      </div>
+
+      {mode === 'remove' ? (
+        <>
+          <h3 className="text-lg font-semibold text-center text-gray-300">Remove the Background</h3>
+          <p className="text-sm text-gray-400 text-center -mt-2">The main subject is kept and everything behind it becomes transparent. You can refine the edges before applying.</p>
+          <button
+              onClick={onRemoveBackground}
+              className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading}
+          >
+              Find Subject
+          </button>
+        </>
+      ) : mode === 'upload' ? (
+        <>
+          <h3 className="text-lg font-semibold text-center text-gray-300">Use Your Own Background</h3>
+          <p className="text-sm text-gray-400 text-center -mt-2">The main subject is placed onto the image you choose.</p>
+          <label
+            htmlFor="background-upload"
+            onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+            onDragLeave={() => setIsDraggingOver(false)}
+            onDrop={(e) => { e.preventDefault(); setIsDraggingOver(false); handleBackgroundFile(e.dataTransfer.files); }}
+            className={`w-full aspect-video flex items-center justify-center rounded-md border-2 border-dashed cursor-pointer overflow-hidden transition-colors ${isDraggingOver ? 'border-blue-400 bg-blue-500/10' : 'border-white/20 hover:border-white/40'}`}
+          >
+            {backgroundUrl
+              ? <img src={backgroundUrl} alt="Selected background" className="w-full h-full object-cover" />
+              : <span className="text-gray-400">Click or drop a background image</span>}
+          </label>
+          <input id="background-upload" type="file" accept="image/*" className="hidden" onChange={(e) => handleBackgroundFile(e.target.files)} />
+          <button
+              onClick={() => backgroundFile && onApplyBackgroundImage(backgroundFile)}
+              className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading || !backgroundFile}
+          >
+              Apply Background
+          </button>
+        </>
+      ) : (
+      <>
       <h3 className="text-lg font-semibold text-center text-gray-300">Generate a New Background</h3>
-      <p className="text-sm text-gray-400 text-center -mt-2">Choose a preset or describe a custom gradient background.</p>
+      <p className="text-sm text-gray-400 text-center -mt-2">Choose a preset or describe a custom background.</p>
 
       <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
         {presets.map(preset => (
@@ -63,7 +132,7 @@ const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onApplyBackgroundEffe
         type="text"
         value={customPrompt}
         onChange={handleCustomChange}
-        placeholder="Or describe a custom gradient (e.g., 'a gradient from red to yellow')"
+        placeholder="Or describe a custom background (e.g., 'a gradient from red to yellow' or 'a sunny beach')"
         className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
         disabled={isLoading}
       />
@@ -79,6 +148,8 @@ const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onApplyBackgroundEffe
             </button>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { BatchOperation, BatchStep } from '../services/batchProcessor';
+import type { Resolution } from '../services/geminiService';
+import { listGradePresets } from '../services/gradeStore';
+import { createId } from '../utils/id';
+
+interface BatchPipelineEditorProps {
+  steps: BatchStep[];
+  onChange: (steps: BatchStep[]) => void;
+  isLocked: boolean;
+}
+
+export const batchOperationLabels: Record<BatchOperation, string> = {
+  filter: 'Filter',
+  adjust: 'Adjustment',
+  grade: 'Color Grade',
+  background: 'Background',
+  upscale: 'Upscale',
+};
+
+const resolutions: Resolution[] = ['HD', 'FHD', '4K', '8K'];
+
+const describeStep = (step: BatchStep): string => {
+  switch (step.operation) {
+    case 'filter':
+    case 'adjust':
+      return step.prompt;
+    case 'grade':
+      return step.name;
+    case 'background':
+      return step.background.name;
+    case 'upscale':
+      return step.resolution;
+  }
+};
+
+const BatchPipelineEditor: React.FC<BatchPipelineEditorProps> = ({ steps, onChange, isLocked }) => {
+  const [operation, setOperation] = useState<BatchOperation>('filter');
+  const [prompt, setPrompt] = useState('');
+  const [background, setBackground] = useState<File | null>(null);
+  const [resolution, setResolution] = useState<Resolution>('FHD');
+  const [gradePresets] = useState(listGradePresets);
+  const [gradePresetId, setGradePresetId] = useState<string>(gradePresets[0]?.id ?? '');
+  const gradePreset = gradePresets.find(p => p.id === gradePresetId);
+
+  const canAdd = operation === 'background' ? !!background
+    : operation === 'grade' ? !!gradePreset
+    : operation === 'upscale' || !!prompt.trim();
+
+  const handleAdd = () => {
+    const id = createId();
+    let step: BatchStep;
+    if (operation === 'filter' || operation === 'adjust') {
+      step = { id, operation, prompt: prompt.trim() };
+    } else if (operation === 'grade') {
+      if (!gradePreset) return;
+      step = { id, operation, name: gradePreset.name, grade: gradePreset.grade };
+    } else if (operation === 'background') {
+      if (!background) return;
+      step = { id, operation, background };
+    } else {
+      step = { id, operation, resolution };
+    }
+    onChange([...steps, step]);
+    setPrompt('');
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 backdrop-blur-xl">
+      <h3 className="text-lg font-semibold text-gray-300">Pipeline</h3>
+
+      {steps.length === 0 ? (
+        <p className="text-sm text-gray-500">Add the operations to run on every image, in order.</p>
+      ) : (
+        <ol className="flex flex-col gap-2">
+          {steps.map((step, index) => (
+            <li key={step.id} className="flex items-center gap-3 bg-black/20 rounded-md px-3 py-2">
+              <span className="text-sm font-bold text-gray-400">{index + 1}.</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-semibold text-gray-200">{batchOperationLabels[step.operation]}</p>
+                <p className="text-xs text-gray-400 truncate">{describeStep(step)}</p>
+              </div>
+              <button onClick={() => moveStep(index, -1)} disabled={isLocked || index === 0} className="text-sm text-gray-300 hover:text-white disabled:text-gray-600" aria-label="Move step up">↑</button>
+              <button onClick={() => moveStep(index, 1)} disabled={isLocked || index === steps.length - 1} className="text-sm text-gray-300 hover:text-white disabled:text-gray-600" aria-label="Move step down">↓</button>
+              <button onClick={() => onChange(steps.filter(s => s.id !== step.id))} disabled={isLocked} className="text-sm text-red-400 hover:text-red-300 disabled:text-gray-600">Remove</button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={operation}
+          onChange={(e) => setOperation(e.target.value as BatchOperation)}
+          disabled={isLocked}
+          className="bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+        >
+          {(Object.keys(batchOperationLabels) as BatchOperation[]).map(op => (
+            <option key={op} value={op}>{batchOperationLabels[op]}</option>
+          ))}
+        </select>
+
+        {(operation === 'filter' || operation === 'adjust') && (
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={operation === 'filter' ? "e.g., 'a warm vintage film look'" : "e.g., 'brighten and add studio lighting'"}
+            disabled={isLocked}
+            className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+          />
+        )}
+        {operation === 'grade' && (gradePresets.length > 0 ? (
+          <select
+            value={gradePresetId}
+            onChange={(e) => setGradePresetId(e.target.value)}
+            disabled={isLocked}
+            className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+          >
+            {gradePresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        ) : (
+          <p className="flex-grow self-center text-sm text-gray-500">Save a grade in the editor's Filters tab to use it here.</p>
+        ))}
+        {operation === 'background' && (
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => setBackground(e.target.files?.[0] ?? null)}
+            disabled={isLocked}
+            className="flex-grow text-sm text-gray-300 file:mr-3 file:rounded-md file:border-0 file:bg-white/10 file:px-3 file:py-2 file:text-gray-200"
+          />
+        )}
+        {operation === 'upscale' && (
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as Resolution)}
+            disabled={isLocked}
+            className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+          >
+            {resolutions.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        )}
+
+        <button
+          onClick={handleAdd}
+          disabled={isLocked || !canAdd}
+          className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-lg transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Step
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPipelineEditor;
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { getResultFileNames, runBatch, type BatchItem, type BatchStep } from '../services/batchProcessor';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { createId } from '../utils/id';
+import { getImageFiles } from '../utils/files';
+import { createZip } from '../utils/zip';
+import BatchPipelineEditor from './BatchPipelineEditor';
+
+interface BatchScreenProps {
+  files: File[];
+  onExit: () => void;
+}
+
+const statusStyles: Record<BatchItem['status'], string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-yellow-400',
+};
+
+const toItem = (file: File): BatchItem => ({ id: createId(), source: file, status: 'queued', stepIndex: 0, attempt: 0 });
+
+const ItemThumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const url = useObjectUrl(file);
+  return url
+    ? <img src={url} alt="" loading="lazy" className="w-16 h-16 rounded-md object-cover bg-black/40 flex-shrink-0" />
+    : <div className="w-16 h-16 rounded-md bg-black/40 flex-shrink-0" />;
+};
+
+const BatchScreen: React.FC<BatchScreenProps> = ({ files, onExit }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => files.map(toItem));
+  const [steps, setSteps] = useState<BatchStep[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel the run if the user leaves batch mode mid-run.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...update } : item));
+  }, []);
+
+  const start = async (toRun: BatchItem[]) => {
+    if (steps.length === 0 || toRun.length === 0) return;
+    const reset = toRun.map(item => ({ ...item, status: 'queued' as const, stepIndex: 0, attempt: 0, result: undefined, error: undefined }));
+    setItems(current => current.map(item => reset.find(r => r.id === item.id) ?? item));
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(reset, steps, { concurrency, onItemUpdate: updateItem, signal: controller.signal });
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = getImageFiles(e.target.files);
+    setItems(current => [...current, ...added.map(toItem)]);
+    e.target.value = '';
+  };
+
+  const handleExport = async () => {
+    const done = items.filter(item => item.result);
+    const names = getResultFileNames(done);
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const zip = await createZip(done.map(item => ({ name: names.get(item.id)!, data: item.result! })));
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `pixshop-batch-${Date.now()}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export the batch.', err);
+      const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setExportError(`Failed to create the ZIP. ${message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const counts = items.reduce<Record<BatchItem['status'], number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 },
+  );
+  const unfinished = items.filter(item => item.status !== 'done');
+  const progress = items.length > 0 && steps.length > 0
+    ? items.reduce((sum, item) => sum + (item.status === 'done' ? steps.length : item.stepIndex), 0) / (items.length * steps.length)
+    : 0;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto flex flex-col gap-6 animate-fade-in bg-gradient-to-br from-gray-900/70 via-black/40 to-gray-900/70 backdrop-blur-lg p-4 sm:p-6 rounded-2xl border border-white/10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-100">Batch Processing</h2>
+          <p className="text-sm text-gray-400">
+            {items.length} {items.length === 1 ? 'image' : 'images'} · {counts.done} done · {counts.failed} failed
+            {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm font-semibold text-blue-400 hover:text-blue-300 cursor-pointer">
+            Add Images
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddFiles} disabled={isRunning} />
+          </label>
+          <button onClick={onExit} disabled={isRunning} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">
+            Exit Batch Mode
+          </button>
+        </div>
+      </div>
+
+      <BatchPipelineEditor steps={steps} onChange={setSteps} isLocked={isRunning} />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Run at once
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 disabled:opacity-60"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {isRunning ? (
+          <button onClick={() => abortRef.current?.abort()} className="bg-red-500/80 hover:bg-red-500 text-white font-bold py-3 px-6 rounded-lg transition-colors">
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={() => start(unfinished)}
+            disabled={steps.length === 0 || unfinished.length === 0}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            {counts.done > 0 || counts.failed > 0 ? `Run Remaining (${unfinished.length})` : 'Start Batch'}
+          </button>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={isRunning || isExporting || counts.done === 0}
+          className="ml-auto bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 active:scale-95 disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          {isExporting ? 'Preparing ZIP...' : `Download ZIP (${counts.done})`}
+        </button>
+      </div>
+
+      {exportError && <p className="text-xs text-red-400 text-right" title={exportError}>{exportError}</p>}
+
+      {isRunning && (
+        <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-2">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 bg-black/20 rounded-lg p-2">
+            <ItemThumbnail file={item.result ?? item.source} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-semibold text-gray-200 truncate">{item.source.name}</p>
+              <p className={`text-xs capitalize ${statusStyles[item.status]}`}>
+                {item.status}
+                {item.status === 'running' && steps.length > 0 && ` · step ${item.stepIndex + 1} of ${steps.length}`}
+                {item.status === 'running' && item.attempt > 1 && item.maxAttempts && ` · retry ${item.attempt - 1} of ${item.maxAttempts - 1}`}
+              </p>
+              {item.error && <p className="text-xs text-red-400 truncate" title={item.error}>{item.error}</p>}
+            </div>
+            {item.status === 'failed' && (
+              <button onClick={() => start([item])} disabled={isRunning} className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+                Retry
+              </button>
+            )}
+            {!isRunning && (
+              <button onClick={() => setItems(current => current.filter(i => i.id !== item.id))} className="text-sm text-gray-400 hover:text-red-400" aria-label={`Remove ${item.source.name}`}>
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchScreen;
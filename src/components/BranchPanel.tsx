@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { HistoryEntry } from '../types';
+import { getPath } from '../utils/historyTree';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useStepImage } from '../hooks/useStepImage';
+import { operationLabels } from './HistoryTimeline';
+
+interface BranchPanelProps {
+  /** Every step across all branches. */
+  entries: HistoryEntry[];
+  /** The last step of each branch. */
+  branchTips: HistoryEntry[];
+  activeTipId: string | null;
+  onSwitchBranch: (tipId: string) => void;
+  isLoading: boolean;
+}
+
+const MAX_COMPARE = 4;
+
+const compareGridClasses: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-2 lg:grid-cols-4',
+};
+
+const BranchImage: React.FC<{ entry: HistoryEntry; className: string }> = ({ entry, className }) => {
+  const url = useObjectUrl(useStepImage(entry));
+  return url ? <img src={url} alt="" className={className} /> : null;
+};
+
+const BranchPanel: React.FC<BranchPanelProps> = ({ entries, branchTips, activeTipId, onSwitchBranch, isLoading }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  // Drop selections for branches that no longer exist (e.g. after opening another project).
+  useEffect(() => {
+    setSelectedIds(ids => ids.filter(id => branchTips.some(tip => tip.id === id)));
+  }, [branchTips]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id)
+      ? ids.filter(selected => selected !== id)
+      : ids.length < MAX_COMPARE ? [...ids, id] : ids);
+  };
+
+  const compared = branchTips.filter(tip => selectedIds.includes(tip.id));
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-3 flex flex-col gap-3 backdrop-blur-md">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-semibold text-gray-200">Branches ({branchTips.length})</h3>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compared.length < 2}
+          className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          Compare {compared.length > 0 ? `(${compared.length})` : ''}
+        </button>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {branchTips.map((tip, index) => {
+          const isActive = tip.id === activeTipId;
+          const steps = getPath(entries, tip.id).length;
+          return (
+            <div
+              key={tip.id}
+              className={`relative flex-shrink-0 w-36 bg-black/20 p-2 rounded-lg border-2 transition-colors ${
+                isActive ? 'border-blue-400' : 'border-white/10 hover:border-white/40'
+              }`}
+            >
+              <button
+                onClick={() => onSwitchBranch(tip.id)}
+                disabled={isLoading || isActive}
+                className="w-full text-left disabled:cursor-default"
+                aria-label={`Switch to branch ${index + 1}`}
+              >
+                <BranchImage entry={tip} className="w-full aspect-square object-cover rounded-md bg-black/40" />
+                <p className="mt-1 text-xs font-semibold text-gray-200 truncate">
+                  Branch {index + 1} · {steps} {steps === 1 ? 'step' : 'steps'}
+                </p>
+                <p className="text-xs text-gray-400 truncate" title={tip.prompt}>
+                  {tip.prompt ?? operationLabels[tip.operation]}
+                </p>
+              </button>
+              <label className="absolute top-3 left-3 flex items-center bg-black/60 rounded p-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(tip.id)}
+                  onChange={() => toggleSelected(tip.id)}
+                  disabled={!selectedIds.includes(tip.id) && selectedIds.length >= MAX_COMPARE}
+                  className="w-4 h-4 accent-blue-500"
+                  aria-label={`Select branch ${index + 1} for comparison`}
+                />
+              </label>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Portalled so the overlay is not clipped by the editor's backdrop-filter container. */}
+      {isComparing && compared.length >= 2 && createPortal(
+        <div className="fixed inset-0 bg-black/80 z-50 flex flex-col p-6 gap-4 animate-fade-in" onClick={() => setIsComparing(false)}>
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-bold text-gray-100">Comparing {compared.length} branches</h3>
+            <button onClick={() => setIsComparing(false)} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md">
+              Close
+            </button>
+          </div>
+          <div className={`flex-1 min-h-0 grid gap-4 ${compareGridClasses[compared.length]}`}>
+            {compared.map(tip => {
+              const index = branchTips.indexOf(tip);
+              return (
+                <div key={tip.id} className="flex flex-col gap-2 min-h-0" onClick={e => e.stopPropagation()}>
+                  <BranchImage entry={tip} className="flex-1 min-h-0 w-full object-contain rounded-md bg-black/40" />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-gray-300 truncate" title={tip.prompt}>
+                      Branch {index + 1}{tip.prompt ? `: ${tip.prompt}` : ''}
+                    </p>
+                    <button
+                      onClick={() => { onSwitchBranch(tip.id); setIsComparing(false); }}
+                      disabled={isLoading || tip.id === activeTipId}
+                      className="flex-shrink-0 text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    >
+                      {tip.id === activeTipId ? 'Current' : 'Use this'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </div>
+  );
+};
+
+export default BranchPanel;
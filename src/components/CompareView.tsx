@@ -0,0 +1,343 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { HistoryEntry } from '../types';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useStepImage } from '../hooks/useStepImage';
+import { loadImage } from '../utils/image';
+import { computeDifferenceMap, renderDifferenceHeatmap, type DifferenceMap } from '../utils/imageDiff';
+import { operationLabels } from './HistoryTimeline';
+
+interface CompareViewProps {
+  /** Every history entry, oldest first; any two can be compared. */
+  entries: HistoryEntry[];
+  initialBeforeId: string;
+  initialAfterId: string;
+  onClose: () => void;
+}
+
+type CompareMode = 'split' | 'side-by-side' | 'difference';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/** Zoom relative to the fitted size, and the image point at the centre of the pane as fractions of its size. */
+interface PaneView {
+  zoom: number;
+  cx: number;
+  cy: number;
+}
+
+const FIT_VIEW: PaneView = { zoom: 1, cx: 0.5, cy: 0.5 };
+const MAX_ZOOM = 16;
+
+const modes: { key: CompareMode; label: string }[] = [
+  { key: 'split', label: 'Split' },
+  { key: 'side-by-side', label: 'Side by Side' },
+  { key: 'difference', label: 'Difference' },
+];
+
+const modeClass = (active: boolean) =>
+  `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 ${active ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+const useImageSize = (file: File | null): Size | null => {
+  const [size, setSize] = useState<Size | null>(null);
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    loadImage(file).then(img => !cancelled && setSize({ width: img.naturalWidth, height: img.naturalHeight }));
+    return () => { cancelled = true; };
+  }, [file]);
+  return size;
+};
+
+// Keeps the centre far enough from the edges that a zoomed image fills the pane.
+const clampView = (view: PaneView): PaneView => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  const half = 0.5 / zoom;
+  return { zoom, cx: Math.min(1 - half, Math.max(half, view.cx)), cy: Math.min(1 - half, Math.max(half, view.cy)) };
+};
+
+interface ComparePaneProps {
+  contentSize: Size;
+  view: PaneView;
+  onViewChange: (update: (view: PaneView) => PaneView) => void;
+  /** Layers stacked in the pane, each given the transformed box to fill. */
+  children: (layerStyle: React.CSSProperties) => React.ReactNode;
+  className?: string;
+}
+
+/**
+ * A pane that fits its content and zooms with the wheel and pans by dragging.
+ * The view is controlled, so several panes can share one.
+ */
+const ComparePane: React.FC<ComparePaneProps> = ({ contentSize, view, onViewChange, children, className }) => {
+  const paneRef = useRef<HTMLDivElement>(null);
+  const [paneSize, setPaneSize] = useState<Size | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) return;
+    const observer = new ResizeObserver(() => setPaneSize({ width: pane.clientWidth, height: pane.clientHeight }));
+    observer.observe(pane);
+    return () => observer.disconnect();
+  }, []);
+
+  const fit = paneSize ? Math.min(paneSize.width / contentSize.width, paneSize.height / contentSize.height) : 0;
+  const scaledWidth = contentSize.width * fit * view.zoom;
+  const scaledHeight = contentSize.height * fit * view.zoom;
+
+  // React's wheel listener is passive, so page scrolling could not be prevented with it.
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane || !fit) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const px = e.clientX - rect.left - rect.width / 2;
+      const py = e.clientY - rect.top - rect.height / 2;
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 40 : e.deltaY;
+      onViewChange(current => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * Math.exp(-delta * 0.0015)));
+        // Keep the image point under the pointer where it is.
+        const u = current.cx + px / (contentSize.width * fit * current.zoom);
+        const v = current.cy + py / (contentSize.height * fit * current.zoom);
+        return clampView({ zoom, cx: u - px / (contentSize.width * fit * zoom), cy: v - py / (contentSize.height * fit * zoom) });
+      });
+    };
+    pane.addEventListener('wheel', handleWheel, { passive: false });
+    return () => pane.removeEventListener('wheel', handleWheel);
+  }, [fit, contentSize, onViewChange]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !fit) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    onViewChange(current => clampView({
+      ...current,
+      cx: current.cx - dx / (contentSize.width * fit * current.zoom),
+      cy: current.cy - dy / (contentSize.height * fit * current.zoom),
+    }));
+  };
+
+  const layerStyle: React.CSSProperties | null = paneSize && fit ? {
+    position: 'absolute',
+    width: scaledWidth,
+    height: scaledHeight,
+    left: paneSize.width / 2 - view.cx * scaledWidth,
+    top: paneSize.height / 2 - view.cy * scaledHeight,
+  } : null;
+
+  return (
+    <div
+      ref={paneRef}
+      className={`relative overflow-hidden bg-black/40 rounded-md touch-none ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''} ${className ?? ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+      onDoubleClick={() => onViewChange(() => FIT_VIEW)}
+    >
+      {layerStyle && children(layerStyle)}
+    </div>
+  );
+};
+
+const entryLabel = (entry: HistoryEntry, index: number) =>
+  `${index + 1}. ${operationLabels[entry.operation]}${entry.prompt ? ` · ${entry.prompt.length > 40 ? `${entry.prompt.slice(0, 40)}...` : entry.prompt}` : ''}`;
+
+/**
+ * Full-screen comparison of any two history entries with a split slider,
+ * synced side-by-side panes or a heatmap of the changed pixels. Scroll to
+ * zoom, drag to pan and double-click to fit.
+ */
+const CompareView: React.FC<CompareViewProps> = ({ entries, initialBeforeId, initialAfterId, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [view, setView] = useState<PaneView>(FIT_VIEW);
+  const [split, setSplit] = useState(50);
+  const [threshold, setThreshold] = useState(12);
+  const [differenceMap, setDifferenceMap] = useState<DifferenceMap | null>(null);
+  const splitDragRef = useRef(false);
+
+  const before = entries.find(entry => entry.id === beforeId);
+  const after = entries.find(entry => entry.id === afterId);
+  const beforeFile = useStepImage(before);
+  const afterFile = useStepImage(after);
+  const beforeUrl = useObjectUrl(beforeFile);
+  const afterUrl = useObjectUrl(afterFile);
+  const beforeSize = useImageSize(beforeFile);
+  const afterSize = useImageSize(afterFile);
+
+  useEffect(() => {
+    if (mode !== 'difference' || !beforeFile || !afterFile) return;
+    let cancelled = false;
+    setDifferenceMap(null);
+    computeDifferenceMap(beforeFile, afterFile)
+      .then(map => !cancelled && setDifferenceMap(map))
+      .catch(err => console.error('Failed to compare the images.', err));
+    return () => { cancelled = true; };
+  }, [mode, beforeFile, afterFile]);
+
+  const heatmap = useMemo(() => differenceMap && renderDifferenceHeatmap(differenceMap, threshold), [differenceMap, threshold]);
+
+  // A callback ref, because the pane only mounts its canvas once it has measured itself.
+  const heatmapRef = useCallback((canvas: HTMLCanvasElement | null) => {
+    if (canvas && heatmap) canvas.getContext('2d')?.putImageData(heatmap.image, 0, 0);
+  }, [heatmap]);
+
+  const handleSplitPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pane = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (pane) setSplit(Math.min(100, Math.max(0, (e.clientX - pane.left) / pane.width * 100)));
+  };
+
+  const indexOf = (entry: HistoryEntry | undefined) => (entry ? entries.indexOf(entry) : -1);
+  const sizesDiffer = !!beforeSize && !!afterSize && (beforeSize.width !== afterSize.width || beforeSize.height !== afterSize.height);
+
+  const entrySelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2 text-sm text-gray-300 min-w-0">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 max-w-xs truncate focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      >
+        {entries.map((entry, index) => <option key={entry.id} value={entry.id}>{entryLabel(entry, index)}</option>)}
+      </select>
+    </label>
+  );
+
+  const image = (url: string | null, alt: string, style: React.CSSProperties) =>
+    url ? <img src={url} alt={alt} draggable={false} className="max-w-none select-none pointer-events-none" style={style} /> : null;
+
+  // Both images share the box of the later one, so the earlier one is stretched if a crop or upscale changed its size.
+  const contentSize = afterSize;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/90 z-50 flex flex-col p-6 gap-4 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <h3 className="text-xl font-bold text-gray-100">Compare</h3>
+          {entrySelect('Before', beforeId, setBeforeId)}
+          {entrySelect('After', afterId, setAfterId)}
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+            {modes.map(({ key, label }) => (
+              <button key={key} onClick={() => setMode(key)} className={modeClass(mode === key)}>{label}</button>
+            ))}
+          </div>
+          <button onClick={onClose} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {contentSize && mode === 'split' && (
+        <ComparePane contentSize={contentSize} view={view} onViewChange={setView} className="flex-1 min-h-0">
+          {style => (
+            <>
+              {image(afterUrl, 'After', style)}
+              <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+                {image(beforeUrl, 'Before', style)}
+              </div>
+              <div
+                className="absolute inset-y-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+                style={{ left: `${split}%` }}
+                onPointerDown={(e) => {
+                  e.stopPropagation();
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  splitDragRef.current = true;
+                }}
+                onPointerMove={(e) => {
+                  if (!splitDragRef.current) return;
+                  e.stopPropagation();
+                  handleSplitPointer(e);
+                }}
+                onPointerUp={() => { splitDragRef.current = false; }}
+              >
+                <div className="w-0.5 h-full bg-white/80" />
+                <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow-lg" />
+              </div>
+              <span className="absolute top-2 left-2 text-xs font-semibold bg-black/60 text-gray-200 px-2 py-0.5 rounded pointer-events-none">Before</span>
+              <span className="absolute top-2 right-2 text-xs font-semibold bg-black/60 text-gray-200 px-2 py-0.5 rounded pointer-events-none">After</span>
+            </>
+          )}
+        </ComparePane>
+      )}
+
+      {mode === 'side-by-side' && beforeSize && afterSize && (
+        <div className="flex-1 min-h-0 grid grid-cols-2 gap-4">
+          {[
+            { label: `Before · ${beforeSize.width} × ${beforeSize.height}`, url: beforeUrl, size: beforeSize },
+            { label: `After · ${afterSize.width} × ${afterSize.height}`, url: afterUrl, size: afterSize },
+          ].map(({ label, url, size }) => (
+            <div key={label} className="flex flex-col gap-2 min-h-0">
+              <p className="text-sm font-semibold text-gray-300">{label}</p>
+              <ComparePane contentSize={size} view={view} onViewChange={setView} className="flex-1 min-h-0">
+                {style => image(url, label, style)}
+              </ComparePane>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {contentSize && mode === 'difference' && (
+        <ComparePane contentSize={contentSize} view={view} onViewChange={setView} className="flex-1 min-h-0">
+          {style => differenceMap ? (
+            <canvas
+              ref={heatmapRef}
+              width={differenceMap.width}
+              height={differenceMap.height}
+              className="pointer-events-none"
+              style={style}
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-400">Comparing pixels...</div>
+          )}
+        </ComparePane>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm text-gray-300">
+        {mode === 'difference' ? (
+          <label className="flex items-center gap-3 flex-grow max-w-md">
+            Ignore changes below
+            <input
+              type="range"
+              min={0}
+              max={128}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="flex-grow"
+            />
+            <span className="w-8 text-right">{threshold}</span>
+          </label>
+        ) : (
+          <p className="text-gray-400">Scroll to zoom, drag to pan, double-click to fit.{mode === 'side-by-side' ? ' Both sides move together.' : ''}</p>
+        )}
+        <p className="text-gray-400">
+          {mode === 'difference' && heatmap && <span className="text-gray-200 font-semibold">{(heatmap.changedRatio * 100).toFixed(1)}% of pixels changed. </span>}
+          {sizesDiffer && mode !== 'side-by-side' && `Step ${indexOf(before) + 1} is a different size and is stretched to match step ${indexOf(after) + 1}.`}
+        </p>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default CompareView;
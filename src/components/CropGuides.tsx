@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export type CropGuide = 'none' | 'thirds' | 'golden';
+
+const GOLDEN_SECTION = 1 / 1.618;
+
+const guideLines: Record<Exclude<CropGuide, 'none'>, number[]> = {
+  thirds: [1 / 3, 2 / 3],
+  golden: [1 - GOLDEN_SECTION, GOLDEN_SECTION],
+};
+
+/**
+ * Composition lines drawn inside the crop selection.
+ */
+const CropGuides: React.FC<{ guide: CropGuide }> = ({ guide }) => {
+  if (guide === 'none') return null;
+  // Lines stay one screen pixel wide however far the viewport is zoomed.
+  const thickness = 'calc(1px / var(--zoom, 1))';
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {guideLines[guide].map(position => (
+        <React.Fragment key={position}>
+          <div className="absolute inset-y-0 bg-white/70" style={{ left: `${position * 100}%`, width: thickness }} />
+          <div className="absolute inset-x-0 bg-white/70" style={{ top: `${position * 100}%`, height: thickness }} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default CropGuides;
@@ -3,50 +3,205 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import type { CropGuide } from './CropGuides';
+import { IDENTITY_TRANSFORM, MAX_ROTATION, flipTransform, isIdentityTransform, rotateQuarterTurn, type ImageTransform } from '../utils/transform';
+
+interface Size {
+  width: number;
+  height: number;
+}
 
 interface CropPanelProps {
   onApplyCrop: () => void;
   onSetAspect: (aspect: number | undefined) => void;
   isLoading: boolean;
   isCropping: boolean;
+  /** Size of the selection in pixels of the rotated image, if there is one. */
+  cropSize: Size | null;
+  onCropSizeChange: (size: Size) => void;
+  transform: ImageTransform;
+  onTransformChange: (transform: ImageTransform) => void;
+  /** Levels the image; resolves to false if no horizon was found. */
+  onAutoStraighten: () => Promise<boolean>;
+  guide: CropGuide;
+  onGuideChange: (guide: CropGuide) => void;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+const presetRatios: Size[] = [
+  { width: 1, height: 1 },
+  { width: 4, height: 5 },
+  { width: 3, height: 2 },
+  { width: 2, height: 3 },
+  { width: 16, height: 9 },
+  { width: 9, height: 16 },
+];
+
+const guides: { value: CropGuide; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'thirds', label: 'Thirds' },
+  { value: 'golden', label: 'Golden' },
+];
+
+const isPreset = (ratio: Size) => presetRatios.some(preset => preset.width === ratio.width && preset.height === ratio.height);
+
+const inputClass = 'w-20 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50';
+
+const CropPanel: React.FC<CropPanelProps> = ({
+  onApplyCrop, onSetAspect, isLoading, isCropping, cropSize, onCropSizeChange, transform, onTransformChange, onAutoStraighten, guide, onGuideChange,
+}) => {
+  // Null leaves the selection free.
+  const [ratio, setRatio] = useState<Size | null>(null);
+  const [isCustom, setIsCustom] = useState(false);
+  const [sizeDraft, setSizeDraft] = useState<Size>({ width: 0, height: 0 });
+  const [straightenNotice, setStraightenNotice] = useState<string | null>(null);
+  const [isStraightening, setIsStraightening] = useState(false);
+
+  useEffect(() => {
+    if (cropSize) setSizeDraft(cropSize);
+  }, [cropSize]);
+
+  const applyRatio = (next: Size | null, custom: boolean) => {
+    setRatio(next);
+    setIsCustom(custom);
+    onSetAspect(next ? next.width / next.height : undefined);
+  };
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+  const handleCustomChange = (key: keyof Size, value: number) => {
+    const next = { ...(ratio ?? { width: 1, height: 1 }), [key]: value };
+    if (next.width > 0 && next.height > 0) applyRatio(next, true);
+    else setRatio(next);
+  };
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'free', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const handleSwap = () => {
+    if (!ratio) return;
+    const swapped = { width: ratio.height, height: ratio.width };
+    applyRatio(swapped, isCustom || !isPreset(swapped));
+  };
+
+  // With a fixed ratio, typing one side fills in the other.
+  const handleSizeDraftChange = (key: keyof Size, value: number) => {
+    const aspect = ratio && ratio.width > 0 && ratio.height > 0 ? ratio.width / ratio.height : null;
+    if (!aspect) {
+      setSizeDraft({ ...sizeDraft, [key]: value });
+    } else if (key === 'width') {
+      setSizeDraft({ width: value, height: Math.round(value / aspect) });
+    } else {
+      setSizeDraft({ width: Math.round(value * aspect), height: value });
+    }
+  };
+
+  const handleAutoStraighten = async () => {
+    setIsStraightening(true);
+    setStraightenNotice(null);
+    try {
+      const found = await onAutoStraighten();
+      if (!found) setStraightenNotice('No clear horizon found.');
+    } finally {
+      setIsStraightening(false);
+    }
+  };
+
+  const modeClass = (active: boolean) => `px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  const canSetSize = sizeDraft.width > 0 && sizeDraft.height > 0;
 
   return (
     <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-xl">
       <h3 className="text-lg font-semibold text-gray-300">Crop Image</h3>
       <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
         <span className="text-sm font-medium text-gray-400">Aspect Ratio:</span>
-        {aspects.map(({ name, value }) => (
+        <button onClick={() => applyRatio(null, false)} disabled={isLoading} className={modeClass(!ratio)}>Free</button>
+        {presetRatios.map(preset => (
           <button
-            key={name}
-            onClick={() => handleAspectChange(name, value)}
+            key={`${preset.width}:${preset.height}`}
+            onClick={() => applyRatio(preset, false)}
             disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' 
-              : 'bg-white/10 hover:bg-white/20 text-gray-200'
-            }`}
+            className={modeClass(!isCustom && ratio?.width === preset.width && ratio?.height === preset.height)}
           >
-            {name}
+            {preset.width}:{preset.height}
+          </button>
+        ))}
+        <button onClick={() => applyRatio(ratio ?? { width: 5, height: 4 }, true)} disabled={isLoading} className={modeClass(isCustom)}>Custom</button>
+        <button
+          onClick={handleSwap}
+          disabled={isLoading || !ratio || ratio.width === ratio.height}
+          className={modeClass(false)}
+          title="Swap between portrait and landscape"
+        >
+          ⇄ Swap
+        </button>
+      </div>
+
+      {isCustom && ratio && (
+        <div className="flex items-center gap-2 text-sm text-gray-300 -mt-2">
+          <input type="number" min={1} value={ratio.width || ''} onChange={(e) => handleCustomChange('width', Number(e.target.value))} disabled={isLoading} aria-label="Ratio width" className={inputClass} />
+          :
+          <input type="number" min={1} value={ratio.height || ''} onChange={(e) => handleCustomChange('height', Number(e.target.value))} disabled={isLoading} aria-label="Ratio height" className={inputClass} />
+        </div>
+      )}
+
+      <form
+        className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (canSetSize) onCropSizeChange(sizeDraft);
+        }}
+      >
+        <span className="font-medium text-gray-400">Size:</span>
+        <input type="number" min={1} value={sizeDraft.width || ''} onChange={(e) => handleSizeDraftChange('width', Math.round(Number(e.target.value)))} disabled={isLoading} aria-label="Crop width in pixels" className={inputClass} />
+        ×
+        <input type="number" min={1} value={sizeDraft.height || ''} onChange={(e) => handleSizeDraftChange('height', Math.round(Number(e.target.value)))} disabled={isLoading} aria-label="Crop height in pixels" className={inputClass} />
+        px
+        <button type="submit" disabled={isLoading || !canSetSize} className={modeClass(false)}>Set Size</button>
+      </form>
+
+      <div className="w-full max-w-lg flex flex-col gap-2">
+        <label className="flex items-center gap-3 text-sm text-gray-400">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_ROTATION}
+            max={MAX_ROTATION}
+            step={0.1}
+            value={transform.rotation}
+            onChange={(e) => onTransformChange({ ...transform, rotation: Number(e.target.value) })}
+            onDoubleClick={() => onTransformChange({ ...transform, rotation: 0 })}
+            disabled={isLoading}
+            className="flex-grow accent-blue-500"
+          />
+          <span className="w-12 text-right text-gray-300">{transform.rotation.toFixed(1)}°</span>
+        </label>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button onClick={handleAutoStraighten} disabled={isLoading || isStraightening} className={modeClass(false)}>
+            {isStraightening ? 'Detecting...' : 'Auto Straighten'}
+          </button>
+          <button onClick={() => onTransformChange(rotateQuarterTurn(transform, -1))} disabled={isLoading} className={modeClass(false)} title="Rotate 90° left">⟲ 90°</button>
+          <button onClick={() => onTransformChange(rotateQuarterTurn(transform, 1))} disabled={isLoading} className={modeClass(false)} title="Rotate 90° right">⟳ 90°</button>
+          <button onClick={() => onTransformChange(flipTransform(transform, 'horizontal'))} disabled={isLoading} className={modeClass(false)}>Flip ↔</button>
+          <button onClick={() => onTransformChange(flipTransform(transform, 'vertical'))} disabled={isLoading} className={modeClass(false)}>Flip ↕</button>
+          <button
+            onClick={() => onTransformChange(IDENTITY_TRANSFORM)}
+            disabled={isLoading || isIdentityTransform(transform)}
+            className={modeClass(false)}
+          >
+            Reset
+          </button>
+        </div>
+        {straightenNotice && <p className="text-sm text-center text-gray-400">{straightenNotice}</p>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Guides:</span>
+        {guides.map(({ value, label }) => (
+          <button key={value} onClick={() => onGuideChange(value)} disabled={isLoading} className={modeClass(guide === value)}>
+            {label}
           </button>
         ))}
       </div>
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type BrushMode } from './MaskCanvas';
+
+interface CutoutPanelProps {
+  brushMode: BrushMode;
+  onBrushModeChange: (mode: BrushMode) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  showMask: boolean;
+  onShowMaskChange: (show: boolean) => void;
+  hasMask: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+const CutoutPanel: React.FC<CutoutPanelProps> = ({
+  brushMode, onBrushModeChange, brushSize, onBrushSizeChange, feather, onFeatherChange, showMask, onShowMaskChange, hasMask, onApply, onCancel, isLoading,
+}) => {
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Refine the Cutout</h3>
+      <p className="text-sm text-gray-400 text-center -mt-2">
+        The checkerboard shows what will be transparent. Brush over the edges to keep or remove more of the subject.
+      </p>
+
+      <div className="w-full flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+        <div className="flex items-center gap-2">
+          <button onClick={() => onBrushModeChange('paint')} disabled={isLoading} className={toggleClass(brushMode === 'paint')}>Keep</button>
+          <button onClick={() => onBrushModeChange('erase')} disabled={isLoading} className={toggleClass(brushMode === 'erase')}>Remove</button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Size
+          <input type="range" min={5} max={150} value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} disabled={isLoading} className="accent-blue-500" />
+          <span className="w-8 text-gray-300">{brushSize}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Edge Softness
+          <input type="range" min={0} max={20} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} disabled={isLoading} className="accent-blue-500" />
+          <span className="w-8 text-gray-300">{feather}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showMask} onChange={(e) => onShowMaskChange(e.target.checked)} disabled={isLoading} className="accent-blue-500" />
+          Show mask
+        </label>
+      </div>
+
+      {!hasMask && <p className="text-sm text-center text-red-400">Nothing is kept. Brush over the subject with Keep.</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onCancel}
+          disabled={isLoading}
+          className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-4 px-6 rounded-lg transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || !hasMask}
+          className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          Apply Cutout
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutPanel;
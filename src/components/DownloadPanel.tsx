@@ -3,12 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { type Resolution } from '../services/geminiService';
+import React, { useState } from 'react';
+import { type Resolution, type UpscaleMethod } from '../services/geminiService';
+import type { WatermarkPreset } from '../services/watermarkStore';
+
+export type TransparentFormat = 'png' | 'webp';
 
 interface DownloadPanelProps {
   onDownloadCurrent: () => void;
-  onUpscale: (resolution: Resolution) => void;
+  onUpscale: (resolution: Resolution, method: UpscaleMethod) => void;
+  /** Whether the current image has transparent pixels worth keeping. */
+  hasTransparency: boolean;
+  onDownloadTransparent: (format: TransparentFormat) => void;
+  onOpenExport: () => void;
+  watermarks: WatermarkPreset[];
+  /** The preset stamped on every download, or null for none. */
+  exportWatermarkId: string | null;
+  onExportWatermarkChange: (id: string | null) => void;
 }
 
 const resolutions: { key: Resolution; label: string; description: string; }[] = [
@@ -18,12 +29,44 @@ const resolutions: { key: Resolution; label: string; description: string; }[] =
   { key: '8K', label: '8K UHD', description: '7680px' },
 ];
 
-const DownloadPanel: React.FC<DownloadPanelProps> = ({ onDownloadCurrent, onUpscale }) => {
+const transparentFormats: { key: TransparentFormat; label: string; description: string; }[] = [
+  { key: 'png', label: 'PNG', description: 'Lossless, works everywhere.' },
+  { key: 'webp', label: 'WebP', description: 'Much smaller, for the web.' },
+];
+
+const upscaleMethods: { key: UpscaleMethod; label: string; description: string; }[] = [
+  { key: 'model', label: 'AI Detail', description: 'The model redraws each tile with new detail.' },
+  { key: 'local', label: 'Fast', description: 'Sharpened resampling in your browser. No AI call.' },
+];
+
+const DownloadPanel: React.FC<DownloadPanelProps> = ({
+  onDownloadCurrent, onUpscale, hasTransparency, onDownloadTransparent, onOpenExport, watermarks, exportWatermarkId, onExportWatermarkChange,
+}) => {
+  const [upscaleMethod, setUpscaleMethod] = useState<UpscaleMethod>('model');
+
   return (
     <div 
       className="absolute right-0 bottom-full mb-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-2 z-50 animate-fade-in-up"
     >
       <ul className="space-y-1">
+        {watermarks.length > 0 && (
+          <>
+            <li className="px-3 py-2">
+              <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                Watermark
+                <select
+                  value={exportWatermarkId ?? ''}
+                  onChange={(e) => onExportWatermarkChange(e.target.value || null)}
+                  className="flex-grow min-w-0 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="">None</option>
+                  {watermarks.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+              </label>
+            </li>
+            <li className="h-px bg-gray-700 my-1"></li>
+          </>
+        )}
         <li>
           <button 
             onClick={onDownloadCurrent}
@@ -33,14 +76,48 @@ const DownloadPanel: React.FC<DownloadPanelProps> = ({ onDownloadCurrent, onUpsc
             <p className="text-xs text-gray-400">Save the image with its current dimensions.</p>
           </button>
         </li>
+        {hasTransparency && transparentFormats.map(({ key, label, description }) => (
+          <li key={key}>
+            <button 
+              onClick={() => onDownloadTransparent(key)}
+              className="w-full text-left px-3 py-2 rounded-md transition-colors text-gray-200 hover:bg-gray-700/50"
+            >
+              <p className="font-semibold">Download Transparent {label}</p>
+              <p className="text-xs text-gray-400">{description}</p>
+            </button>
+          </li>
+        ))}
+        <li>
+          <button 
+            onClick={onOpenExport}
+            className="w-full text-left px-3 py-2 rounded-md transition-colors text-gray-200 hover:bg-gray-700/50"
+          >
+            <p className="font-semibold">Export Options...</p>
+            <p className="text-xs text-gray-400">Choose format, quality, size and metadata.</p>
+          </button>
+        </li>
         <li className="h-px bg-gray-700 my-1"></li>
+        <li className="px-1 py-1">
+          <div className="flex gap-1 p-1 bg-black/20 rounded-md">
+            {upscaleMethods.map(({ key, label, description }) => (
+              <button
+                key={key}
+                onClick={() => setUpscaleMethod(key)}
+                title={description}
+                className={`flex-1 px-2 py-1 rounded text-xs font-semibold transition-colors ${upscaleMethod === key ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </li>
         {resolutions.map(({ key, label, description }) => (
           <li key={key}>
             <button 
-              onClick={() => onUpscale(key)}
+              onClick={() => onUpscale(key, upscaleMethod)}
               className="w-full text-left px-3 py-2 rounded-md transition-colors text-gray-200 hover:bg-gray-700/50"
             >
-              <p className="font-semibold">Upscale & Download {label}</p>
+              <p className="font-semibold">Upscale to {label}...</p>
               <p className="text-xs text-gray-400">Enlarge image to {description} on the longest side.</p>
             </button>
           </li>
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { isServiceError, type ServiceErrorKind } from '../services/errors';
+import { suggestPromptRewrites } from '../utils/promptRewrites';
+
+export interface ErrorNotice {
+  message: string;
+  /** The error behind the message; typed service errors get their own title and advice. */
+  cause?: unknown;
+  /** Repeats the failed request with the same parameters, or with a different prompt. */
+  retry?: (prompt?: string) => void;
+  /** The prompt the failed request was sent with, used to suggest rewrites when it was blocked. */
+  prompt?: string;
+}
+
+interface ErrorToastProps {
+  notice: ErrorNotice;
+  onDismiss: () => void;
+}
+
+const guidance: Record<ServiceErrorKind, { title: string; hint: string; canRetry: boolean }> = {
+  'safety-blocked': { title: 'Blocked by safety filters', hint: 'The model refused this request. Rewording the prompt usually helps.', canRetry: true },
+  'no-image': { title: 'No image came back', hint: 'The model answered without an image. Try again, or make the prompt more direct.', canRetry: true },
+  'rate-limited': { title: 'Too many requests', hint: 'The model is busy or your quota is used up. Wait a minute before retrying.', canRetry: true },
+  'invalid-api-key': { title: 'API key rejected', hint: 'Set a valid GEMINI_API_KEY in .env.local and restart the app.', canRetry: false },
+  'network-offline': { title: 'You appear to be offline', hint: 'Check your connection, then retry.', canRetry: true },
+  'parse-failure': { title: 'Unexpected response', hint: 'The model answered in a format Pixshop could not read. Retrying usually works.', canRetry: true },
+};
+
+/**
+ * Explains a failed operation without hiding the image, with ways to recover
+ * such as retrying or sending a reworded prompt.
+ */
+const ErrorToast: React.FC<ErrorToastProps> = ({ notice, onDismiss }) => {
+  const { message, cause, retry, prompt } = notice;
+  const info = isServiceError(cause) ? guidance[cause.kind] : null;
+  const suggestions = isServiceError(cause) && cause.kind === 'safety-blocked' && prompt ? suggestPromptRewrites(prompt) : [];
+  const canRetry = !!retry && (info?.canRetry ?? true);
+
+  const runRetry = (nextPrompt?: string) => {
+    onDismiss();
+    retry?.(nextPrompt);
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-6 px-4 z-50 flex justify-center pointer-events-none">
+      <div
+        role="alert"
+        className="pointer-events-auto w-full max-w-lg bg-gray-900/95 border border-red-500/40 rounded-lg shadow-2xl p-4 flex flex-col gap-3 animate-fade-in-up backdrop-blur-md"
+      >
+        <div className="flex items-start gap-3">
+          <div className="flex-grow min-w-0">
+            <p className="font-semibold text-red-300">{info?.title ?? 'Something went wrong'}</p>
+            <p className="text-sm text-gray-300 break-words">{message}</p>
+            {info && <p className="text-sm text-gray-400 mt-1">{info.hint}</p>}
+          </div>
+          <button onClick={onDismiss} className="text-gray-400 hover:text-white text-xl leading-none" aria-label="Dismiss">&times;</button>
+        </div>
+
+        {suggestions.length > 0 && retry && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-400">Try one of these instead:</span>
+            {suggestions.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => runRetry(suggestion)}
+                className="text-left text-sm bg-white/5 hover:bg-white/10 text-gray-200 rounded-md px-3 py-2 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {canRetry && (
+          <div className="flex justify-end">
+            <button
+              onClick={() => runRetry()}
+              className="bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors"
+            >
+              Retry with Same Settings
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorToast;
@@ -0,0 +1,317 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { loadImage } from '../utils/image';
+import { hasMetadata, readImageMetadata } from '../utils/metadata';
+import {
+  exportFormats,
+  exportImage,
+  formatFileSize,
+  isFormatSupported,
+  MAX_EXPORT_DIMENSION,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportResult,
+  type MetadataMode,
+} from '../utils/exportImage';
+
+interface ExportDialogProps {
+  image: File;
+  /** The originally uploaded photo, whose EXIF and XMP can be carried over. */
+  metadataSource: File | null;
+  /** Whether the image has transparent pixels that JPEG would flatten. */
+  hasTransparency: boolean;
+  onExport: (file: File) => void;
+  onClose: () => void;
+}
+
+const metadataModes: { key: MetadataMode; label: string }[] = [
+  { key: 'keep', label: 'Keep all' },
+  { key: 'remove-location', label: 'Keep, without location' },
+  { key: 'strip', label: 'Remove all' },
+];
+
+// Encoding large images is slow, so the size estimate waits for the settings to settle.
+const ESTIMATE_DELAY_MS = 400;
+
+const modeClass = (active: boolean) =>
+  `flex-1 px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, metadataSource, hasTransparency, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: hasTransparency ? 'png' : 'jpeg',
+    quality: 90,
+    targetSizeKb: null,
+    width: 0,
+    height: 0,
+    convertToSrgb: true,
+    metadata: 'remove-location',
+  });
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [lockAspect, setLockAspect] = useState(true);
+  const [originalHasMetadata, setOriginalHasMetadata] = useState(false);
+  const [hasProfile, setHasProfile] = useState(false);
+  const [estimate, setEstimate] = useState<{ key: string; result: ExportResult } | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image).then(img => {
+      if (cancelled) return;
+      setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+      setOptions(prev => ({ ...prev, width: img.naturalWidth, height: img.naturalHeight }));
+    }).catch(err => console.error('Failed to read image size.', err));
+    readImageMetadata(image).then(metadata => !cancelled && setHasProfile(!!metadata.icc));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (metadataSource) {
+      readImageMetadata(metadataSource).then(metadata => !cancelled && setOriginalHasMetadata(hasMetadata(metadata)));
+    }
+    return () => { cancelled = true; };
+  }, [metadataSource]);
+
+  const format = exportFormats[options.format];
+  const optionsKey = JSON.stringify(options);
+  const sizeIsValid = options.width >= 1 && options.height >= 1
+    && options.width <= MAX_EXPORT_DIMENSION && options.height <= MAX_EXPORT_DIMENSION;
+
+  useEffect(() => {
+    if (!naturalSize || !sizeIsValid) return;
+    let cancelled = false;
+    setEstimateError(null);
+    const timer = setTimeout(() => {
+      exportImage(image, options, metadataSource)
+        .then(result => !cancelled && setEstimate({ key: optionsKey, result }))
+        .catch(err => !cancelled && setEstimateError(err instanceof Error ? err.message : 'Could not estimate the size.'));
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, metadataSource, naturalSize, sizeIsValid, options, optionsKey]);
+
+  const formatAvailability = useMemo(
+    () => Object.fromEntries((Object.keys(exportFormats) as ExportFormat[]).map(key => [key, isFormatSupported(key)])) as Record<ExportFormat, boolean>,
+    [],
+  );
+
+  const setOption = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) =>
+    setOptions(prev => ({ ...prev, [key]: value }));
+
+  const handleWidthChange = (value: number) => {
+    setOptions(prev => ({
+      ...prev,
+      width: value,
+      height: lockAspect && naturalSize ? Math.max(1, Math.round(value * naturalSize.height / naturalSize.width)) : prev.height,
+    }));
+  };
+
+  const handleHeightChange = (value: number) => {
+    setOptions(prev => ({
+      ...prev,
+      height: value,
+      width: lockAspect && naturalSize ? Math.max(1, Math.round(value * naturalSize.width / naturalSize.height)) : prev.width,
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // The estimate is an encode of the same settings, so it can be saved as is.
+      const result = estimate?.key === optionsKey ? estimate.result : await exportImage(image, options, metadataSource);
+      const baseName = image.name.replace(/\.[^.]+$/, '');
+      onExport(new File([result.blob], `edited-${baseName}.${format.extension}`, { type: format.mimeType }));
+    } catch (err) {
+      setEstimateError(err instanceof Error ? err.message : 'The image could not be exported.');
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentEstimate = estimate?.key === optionsKey ? estimate.result : null;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-6 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-6 flex flex-col gap-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-100">Export Image</h3>
+          <button onClick={onClose} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md">
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <p className="text-sm font-semibold text-gray-300">Format</p>
+          <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+            {(Object.keys(exportFormats) as ExportFormat[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setOption('format', key)}
+                disabled={!formatAvailability[key]}
+                title={formatAvailability[key] ? undefined : 'Not supported by this browser'}
+                className={modeClass(options.format === key)}
+              >
+                {exportFormats[key].label}
+              </button>
+            ))}
+          </div>
+          {hasTransparency && !format.keepsTransparency && (
+            <p className="text-xs text-amber-300">JPEG has no transparency; transparent areas will be filled with white.</p>
+          )}
+        </div>
+
+        {format.lossy && (
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+              <button onClick={() => setOption('targetSizeKb', null)} className={modeClass(options.targetSizeKb === null)}>
+                Quality
+              </button>
+              <button onClick={() => setOption('targetSizeKb', 500)} className={modeClass(options.targetSizeKb !== null)}>
+                Target File Size
+              </button>
+            </div>
+            {options.targetSizeKb === null ? (
+              <label className="flex items-center gap-3 text-sm text-gray-300">
+                <input
+                  type="range"
+                  min={1}
+                  max={100}
+                  value={options.quality}
+                  onChange={(e) => setOption('quality', Number(e.target.value))}
+                  className="flex-grow"
+                />
+                <span className="w-10 text-right">{options.quality}</span>
+              </label>
+            ) : (
+              <label className="flex items-center gap-3 text-sm text-gray-300">
+                At most
+                <input
+                  type="number"
+                  min={10}
+                  value={options.targetSizeKb}
+                  onChange={(e) => setOption('targetSizeKb', Math.max(10, Number(e.target.value) || 10))}
+                  className="w-28 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+                KB
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <p className="text-sm font-semibold text-gray-300">Size</p>
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="number"
+              min={1}
+              max={MAX_EXPORT_DIMENSION}
+              value={options.width || ''}
+              onChange={(e) => handleWidthChange(Math.round(Number(e.target.value)))}
+              aria-label="Width in pixels"
+              className="w-24 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            ×
+            <input
+              type="number"
+              min={1}
+              max={MAX_EXPORT_DIMENSION}
+              value={options.height || ''}
+              onChange={(e) => handleHeightChange(Math.round(Number(e.target.value)))}
+              aria-label="Height in pixels"
+              className="w-24 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            px
+            <label className="flex items-center gap-1.5 ml-2 cursor-pointer">
+              <input type="checkbox" checked={lockAspect} onChange={(e) => setLockAspect(e.target.checked)} />
+              Keep proportions
+            </label>
+            {naturalSize && (options.width !== naturalSize.width || options.height !== naturalSize.height) && (
+              <button
+                onClick={() => setOptions(prev => ({ ...prev, ...naturalSize }))}
+                className="text-sm text-blue-400 hover:text-blue-300 ml-auto"
+              >
+                Original
+              </button>
+            )}
+          </div>
+          {!sizeIsValid && naturalSize && (
+            <p className="text-xs text-red-400">Width and height must be between 1 and {MAX_EXPORT_DIMENSION} pixels.</p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2 text-sm text-gray-300">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={options.convertToSrgb} onChange={(e) => setOption('convertToSrgb', e.target.checked)} />
+            Convert colours to sRGB
+          </label>
+          {!hasProfile && <p className="text-xs text-gray-400">The image has no embedded colour profile, so it is already saved as sRGB.</p>}
+          {hasProfile && !options.convertToSrgb && options.format !== 'jpeg' && (
+            <p className="text-xs text-gray-400">Only JPEG keeps the original colour profile; other formats are always sRGB.</p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center justify-between gap-3 text-sm font-semibold text-gray-300">
+            Photo metadata (EXIF/XMP)
+            <select
+              value={options.metadata}
+              onChange={(e) => setOption('metadata', e.target.value as MetadataMode)}
+              disabled={!format.keepsMetadata || !originalHasMetadata}
+              className="bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 font-normal focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+            >
+              {metadataModes.map(({ key, label }) => <option key={key} value={key}>{label}</option>)}
+            </select>
+          </label>
+          {!originalHasMetadata ? (
+            <p className="text-xs text-gray-400">The original photo has no metadata to keep.</p>
+          ) : !format.keepsMetadata ? (
+            <p className="text-xs text-gray-400">{format.label} files are saved without metadata.</p>
+          ) : options.metadata === 'keep' ? (
+            <p className="text-xs text-amber-300">The GPS location of the photo, if any, will be included.</p>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 pt-2 border-t border-gray-700">
+          <div className="text-sm text-gray-300">
+            {estimateError ? (
+              <span className="text-red-400">{estimateError}</span>
+            ) : currentEstimate ? (
+              <>
+                Estimated size: <span className="font-semibold text-white">{formatFileSize(currentEstimate.blob.size)}</span>
+                {options.targetSizeKb !== null && format.lossy && (
+                  <span className="block text-xs text-gray-400">
+                    {currentEstimate.exceedsTarget ? 'Cannot reach the target; using the lowest quality' : `Quality ${currentEstimate.quality}`}
+                  </span>
+                )}
+              </>
+            ) : (
+              <span className="text-gray-400">Estimating size...</span>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !naturalSize || !sizeIsValid}
+            className="bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default ExportDialog;
@@ -3,16 +3,35 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { deleteGradePreset, listGradePresets, saveGradePreset, type GradePreset } from '../services/gradeStore';
+import { DEFAULT_COLOR_GRADE, isNeutralGrade, parseCubeLut, type ColorGrade } from '../utils/colorGrade';
+import { createId } from '../utils/id';
+import ToneCurveEditor from './ToneCurveEditor';
+
+export type FilterMode = 'ai' | 'grade';
 
 interface FilterPanelProps {
+  mode: FilterMode;
+  onModeChange: (mode: FilterMode) => void;
+  /** The grade being edited, previewed live on the image until applied. */
+  grade: ColorGrade;
+  onGradeChange: (grade: ColorGrade) => void;
+  /** Commits the grade to history. Runs locally, without the model. */
+  onApplyGrade: () => void;
   onApplyFilter: (prompt: string) => void;
   isLoading: boolean;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  mode, onModeChange, grade, onGradeChange, onApplyGrade, onApplyFilter, isLoading,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
+  const [gradePresets, setGradePresets] = useState<GradePreset[]>(listGradePresets);
+  const [presetName, setPresetName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
 
   const presets = [
     { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
@@ -39,8 +58,133 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
     }
   };
 
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const source = await file.text();
+      const lut = parseCubeLut(source);
+      onGradeChange({ ...grade, lut: { name: file.name.replace(/\.cube$/i, ''), source } });
+      setNotice(`Loaded ${file.name} (${lut.size}×${lut.size}×${lut.size}).`);
+    } catch (err) {
+      setNotice(`Could not load ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+    try {
+      saveGradePreset({ id: createId(), name: presetName.trim(), grade, createdAt: Date.now() });
+      setGradePresets(listGradePresets());
+      setNotice(`Saved "${presetName.trim()}".`);
+      setPresetName('');
+    } catch (err) {
+      // Browser storage is limited to a few megabytes, which a large LUT can exceed.
+      setNotice(`Could not save the grade. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleDeletePreset = (id: string) => {
+    deleteGradePreset(id);
+    setGradePresets(listGradePresets());
+  };
+
+  const modeClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  const isNeutral = isNeutralGrade(grade);
+
   return (
     <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={() => onModeChange('ai')} disabled={isLoading} className={modeClass(mode === 'ai')}>AI Filters</button>
+        <button onClick={() => onModeChange('grade')} disabled={isLoading} className={modeClass(mode === 'grade')}>Color Grade</button>
+      </div>
+
+      {mode === 'grade' ? (
+        <>
+          <h3 className="text-lg font-semibold text-center text-gray-300">Color Grade</h3>
+          <p className="text-sm text-gray-400 text-center -mt-2">Curves and LUTs are applied on your device, so every photo in a set gets exactly the same look.</p>
+
+          <ToneCurveEditor curves={grade.curves} onChange={(curves) => onGradeChange({ ...grade, curves })} disabled={isLoading} />
+
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+            {grade.lut ? (
+              <>
+                <span className="text-sm text-gray-300">LUT: <span className="font-semibold">{grade.lut.name}</span></span>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  Strength
+                  <input type="range" min={0} max={100} value={grade.lutStrength} onChange={(e) => onGradeChange({ ...grade, lutStrength: Number(e.target.value) })} disabled={isLoading} className="accent-blue-500" />
+                  <span className="w-8 text-gray-300">{grade.lutStrength}</span>
+                </label>
+                <button onClick={() => onGradeChange({ ...grade, lut: null })} disabled={isLoading} className="text-sm text-red-400 hover:text-red-300 disabled:text-gray-500">Remove LUT</button>
+              </>
+            ) : (
+              <button onClick={() => lutInputRef.current?.click()} disabled={isLoading} className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+                Import .cube LUT
+              </button>
+            )}
+            <input ref={lutInputRef} type="file" accept=".cube" className="hidden" onChange={handleLutImport} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onGradeChange(DEFAULT_COLOR_GRADE)}
+              disabled={isLoading || isNeutral}
+              className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-4 px-6 rounded-lg transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+            <button
+              onClick={onApplyGrade}
+              disabled={isLoading || isNeutral}
+              className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+            >
+              Apply Grade
+            </button>
+          </div>
+
+          <form onSubmit={handleSavePreset} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Name this grade to reuse it, e.g. 'Summer shoot'"
+              disabled={isLoading || isNeutral}
+              className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:cursor-not-allowed disabled:opacity-60"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || isNeutral || !presetName.trim()}
+              className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-lg transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Grade
+            </button>
+          </form>
+          {notice && <p className="text-sm text-gray-400">{notice}</p>}
+
+          {gradePresets.length > 0 && (
+            <ul className="flex flex-col gap-2">
+              {gradePresets.map(preset => (
+                <li key={preset.id} className="flex items-center gap-3 bg-black/20 rounded-md px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-semibold text-gray-200 truncate">{preset.name}</p>
+                    <p className="text-xs text-gray-400 truncate">{preset.grade.lut ? `Curves + ${preset.grade.lut.name}` : 'Curves'}</p>
+                  </div>
+                  <button onClick={() => onGradeChange(preset.grade)} disabled={isLoading} className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">Use</button>
+                  <button onClick={() => handleDeletePreset(preset.id)} disabled={isLoading} className="text-sm text-red-400 hover:text-red-300 disabled:text-gray-500">Delete</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+      <>
       <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter</h3>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
@@ -76,6 +220,8 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
           </button>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 };
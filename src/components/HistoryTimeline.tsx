@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useStepImage } from '../hooks/useStepImage';
+import type { HistoryEntry, OperationKind } from '../types';
+
+interface HistoryTimelineProps {
+  /** The steps of the active branch, oldest first. */
+  entries: HistoryEntry[];
+  /** Every step across all branches, used to mark where branches split off. */
+  allEntries: HistoryEntry[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  isLoading: boolean;
+}
+
+export const operationLabels: Record<OperationKind, string> = {
+  'upload': 'Original',
+  'retouch': 'Retouch',
+  'object-edit': 'Object Edit',
+  'filter': 'Filter',
+  'style': 'Style',
+  'adjustment': 'Adjustment',
+  'background': 'Background',
+  'crop': 'Crop',
+  'upscale': 'Upscale',
+  'overlay': 'Overlay',
+};
+
+const formatDuration = (ms: number): string => ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const EntryThumbnail: React.FC<{ entry: HistoryEntry }> = ({ entry }) => {
+  const url = useObjectUrl(useStepImage(entry));
+
+  return url
+    ? <img src={url} alt="" loading="lazy" className="w-full h-full object-cover" />
+    : null;
+};
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ entries, allEntries, currentIndex, onSelect, isLoading }) => {
+  const [inspectedIndex, setInspectedIndex] = useState<number | null>(null);
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+
+  const childCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    allEntries.forEach(entry => {
+      if (entry.parentId) counts.set(entry.parentId, (counts.get(entry.parentId) ?? 0) + 1);
+    });
+    return counts;
+  }, [allEntries]);
+
+  // Keep the current step in view as history grows or the user undoes/redoes.
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+  }, [currentIndex, entries.length]);
+
+  if (entries.length === 0) return null;
+
+  const detailIndex = inspectedIndex !== null && inspectedIndex < entries.length ? inspectedIndex : currentIndex;
+  const detail = entries[detailIndex];
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-3 flex flex-col gap-3 backdrop-blur-md">
+      <div className="flex gap-2 overflow-x-auto pb-1" onMouseLeave={() => setInspectedIndex(null)}>
+        {entries.map((entry, index) => (
+          <button
+            key={entry.id}
+            ref={index === currentIndex ? activeItemRef : undefined}
+            onClick={() => onSelect(index)}
+            onMouseEnter={() => setInspectedIndex(index)}
+            onFocus={() => setInspectedIndex(index)}
+            disabled={isLoading}
+            className={`relative flex-shrink-0 w-20 h-20 rounded-md overflow-hidden border-2 transition-all duration-200 disabled:cursor-not-allowed ${
+              index === currentIndex
+              ? 'border-blue-400 ring-2 ring-blue-400/40'
+              : index > currentIndex ? 'border-white/10 opacity-50 hover:opacity-100' : 'border-white/10 hover:border-white/40'
+            }`}
+            aria-label={`Go to step ${index + 1}: ${operationLabels[entry.operation]}`}
+          >
+            <EntryThumbnail entry={entry} />
+            {(childCounts.get(entry.id) ?? 0) > 1 && (
+              <span className="absolute top-1 right-1 bg-cyan-500/90 text-[10px] font-bold text-white px-1.5 rounded-full" title="Branches split off here">
+                {childCounts.get(entry.id)}
+              </span>
+            )}
+            <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[10px] font-semibold text-gray-200 px-1 py-0.5 truncate">
+              {index + 1}. {operationLabels[entry.operation]}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {detail && (
+        <div className="flex flex-wrap items-start justify-between gap-3 text-sm">
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold text-gray-200">
+              Step {detailIndex + 1}: {operationLabels[detail.operation]}
+            </p>
+            {detail.prompt && <p className="text-gray-400 break-words">"{detail.prompt}"</p>}
+            <p className="text-xs text-gray-500">
+              {[
+                new Date(detail.createdAt).toLocaleTimeString(),
+                detail.model,
+                detail.durationMs !== undefined ? formatDuration(detail.durationMs) : null,
+              ].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          {currentIndex < entries.length - 1 && (
+            <p className="flex-shrink-0 text-xs text-gray-500 max-w-[16rem]">
+              New edits from step {currentIndex + 1} start a new branch; later steps are kept.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { BlendMode, Layer } from '../types';
+import { blendModes } from '../utils/layers';
+import { EyeIcon } from './icons';
+import { type BrushMode } from './MaskCanvas';
+
+interface LayerPanelProps {
+  /** The layers of the current step, bottom to top, or null if it was not built from layers. */
+  layers: Layer[] | null;
+  onLayersChange: (layers: Layer[]) => void;
+  /** The layer whose mask is being painted on the image. */
+  maskLayerId: string | null;
+  onEditMask: (layerId: string) => void;
+  onFinishMask: () => void;
+  onCancelMask: () => void;
+  brushMode: BrushMode;
+  onBrushModeChange: (mode: BrushMode) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  isLoading: boolean;
+}
+
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers, onLayersChange, maskLayerId, onEditMask, onFinishMask, onCancelMask, brushMode, onBrushModeChange, brushSize, onBrushSizeChange, feather, onFeatherChange, isLoading,
+}) => {
+  const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  if (!layers || layers.length === 0) {
+    return (
+      <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col items-center gap-2 animate-fade-in backdrop-blur-xl">
+        <h3 className="text-lg font-semibold text-gray-300">Layers</h3>
+        <p className="text-sm text-gray-400 text-center max-w-md">
+          Retouches, filters, styles, adjustments and new backgrounds are stacked as layers over the base image.
+          Crops, upscales and cutouts start a new base.
+        </p>
+      </div>
+    );
+  }
+
+  const updateLayer = (id: string, changes: Partial<Layer>) => {
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+  };
+
+  const moveLayer = (index: number, offset: 1 | -1) => {
+    const next = [...layers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onLayersChange(next);
+  };
+
+  const maskLayer = layers.find(layer => layer.id === maskLayerId);
+  const isEditingMask = !!maskLayer;
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-xl">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Layers</h3>
+
+      {maskLayer && (
+        <div className="flex flex-wrap items-center justify-center gap-3 bg-blue-500/10 border border-blue-500/20 rounded-md p-3">
+          <span className="text-sm text-blue-200">
+            Painting the mask of <strong>{maskLayer.name}</strong>. Paint to show the layer, erase to hide it.
+          </span>
+          <div className="flex items-center gap-2">
+            <button onClick={() => onBrushModeChange('paint')} className={toggleClass(brushMode === 'paint')}>Show</button>
+            <button onClick={() => onBrushModeChange('erase')} className={toggleClass(brushMode === 'erase')}>Hide</button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Size
+            <input type="range" min={5} max={150} value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} className="accent-blue-500" />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Feather
+            <input type="range" min={0} max={50} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} className="accent-blue-500" />
+          </label>
+          <div className="flex items-center gap-2">
+            <button onClick={onCancelMask} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md">Cancel</button>
+            <button onClick={onFinishMask} className="text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-md">Done</button>
+          </div>
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-2">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <li
+            key={layer.id}
+            className={`flex flex-wrap items-center gap-3 rounded-md p-2 ${layer.id === maskLayerId ? 'bg-blue-500/20' : 'bg-white/5'}`}
+          >
+            <button
+              onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+              disabled={isLoading || isEditingMask}
+              className={`p-1 rounded ${layer.visible ? 'text-gray-200' : 'text-gray-600'} hover:bg-white/10 disabled:opacity-50`}
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+              aria-pressed={layer.visible}
+            >
+              <EyeIcon className="w-5 h-5" />
+            </button>
+            <span className={`flex-grow min-w-[6rem] text-sm font-semibold truncate ${layer.visible ? 'text-gray-200' : 'text-gray-500'}`}>
+              {layer.name}
+              {layer.mask && <span className="ml-2 text-xs font-normal text-blue-300">masked</span>}
+            </span>
+            <select
+              value={layer.blendMode}
+              onChange={(e) => updateLayer(layer.id, { blendMode: e.target.value as BlendMode })}
+              disabled={isLoading || isEditingMask}
+              aria-label="Blend mode"
+              className="bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {blendModes.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Opacity
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(layer.opacity * 100)}
+                onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) / 100 })}
+                disabled={isLoading || isEditingMask}
+                className="w-24 accent-blue-500"
+              />
+              <span className="w-10 text-right text-gray-300">{Math.round(layer.opacity * 100)}%</span>
+            </label>
+            <div className="flex items-center gap-1">
+              <button onClick={() => moveLayer(index, 1)} disabled={isLoading || isEditingMask || index === layers.length - 1} className={toggleClass(false)} title="Move up">↑</button>
+              <button onClick={() => moveLayer(index, -1)} disabled={isLoading || isEditingMask || index === 0} className={toggleClass(false)} title="Move down">↓</button>
+            </div>
+            <div className="flex items-center gap-1">
+              <button onClick={() => onEditMask(layer.id)} disabled={isLoading || isEditingMask} className={toggleClass(false)}>
+                {layer.mask ? 'Edit Mask' : 'Add Mask'}
+              </button>
+              {layer.mask && (
+                <button onClick={() => updateLayer(layer.id, { mask: null })} disabled={isLoading || isEditingMask} className={toggleClass(false)}>
+                  Remove Mask
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+        <li className="flex items-center gap-3 rounded-md p-2 bg-white/5 text-sm font-semibold text-gray-400">
+          <span className="w-7" />
+          Base image
+        </li>
+      </ul>
+      <p className="text-xs text-center text-gray-500">Further edits, downloads and exports use the flattened image. The layers stay editable on this step.</p>
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import type { LayerStack } from '../types';
+import { drawLayerStack } from '../utils/layers';
+
+interface LayerStackPreviewProps {
+  stack: LayerStack;
+  className?: string;
+}
+
+// Previews are rendered at screen size rather than full resolution to keep sliders responsive.
+const PREVIEW_MAX_SIZE = 1024;
+
+/**
+ * Draws a layer stack as it is being changed, before it has been flattened.
+ */
+const LayerStackPreview: React.FC<LayerStackPreviewProps> = ({ stack, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    drawLayerStack(stack, PREVIEW_MAX_SIZE).then(preview => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (cancelled || !canvas || !ctx) return;
+      canvas.width = preview.width;
+      canvas.height = preview.height;
+      ctx.drawImage(preview, 0, 0);
+    }).catch(err => console.error('Failed to draw the layers.', err));
+    return () => { cancelled = true; };
+  }, [stack]);
+
+  return <canvas ref={canvasRef} className={`pointer-events-none ${className ?? ''}`} />;
+};
+
+export default LayerStackPreview;
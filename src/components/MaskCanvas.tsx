@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { canvasToFile, clientToImagePoint, createCanvas, getImagePixels, loadImage } from '../utils/image';
+
+export type BrushMode = 'paint' | 'erase';
+
+export interface MaskCanvasHandle {
+  /** Renders the painted area as a feathered white-on-black PNG, or null if nothing is painted. */
+  toMaskFile: () => Promise<File | null>;
+  clear: () => void;
+}
+
+interface MaskCanvasProps {
+  naturalWidth: number;
+  naturalHeight: number;
+  /** Brush diameter in screen pixels. */
+  brushSize: number;
+  /** Edge softness in screen pixels, applied when the mask is exported. */
+  feather: number;
+  mode: BrushMode;
+  /** A grayscale mask to start from, where white is painted. Resized to the canvas. */
+  initialMask?: Blob;
+  onMaskChange: (hasMask: boolean) => void;
+  className?: string;
+}
+
+const MASK_RGB = [59, 130, 246];
+const MASK_COLOR = `rgb(${MASK_RGB.join(', ')})`;
+
+const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ naturalWidth, naturalHeight, brushSize, feather, mode, initialMask, onMaskChange, className }, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+
+  // Ratio between natural image pixels and on-screen pixels.
+  const getImageScale = (): number => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    const displayScale = Math.min(rect.width / naturalWidth, rect.height / naturalHeight);
+    return displayScale > 0 ? 1 / displayScale : 1;
+  };
+
+  const hasPaint = (): boolean => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return false;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) return true;
+    }
+    return false;
+  };
+
+  useEffect(() => {
+    if (!initialMask) return;
+    let cancelled = false;
+    loadImage(initialMask).then(img => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (cancelled || !canvas || !ctx) return;
+      // Paint with the mask's brightness as coverage, as if it had been brushed on.
+      const imageData = getImagePixels(img, canvas.width, canvas.height);
+      const { data } = imageData;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = data[i];
+        data[i] = MASK_RGB[0];
+        data[i + 1] = MASK_RGB[1];
+        data[i + 2] = MASK_RGB[2];
+      }
+      ctx.putImageData(imageData, 0, 0);
+      onMaskChange(hasPaint());
+    }).catch(err => console.error('Failed to load the starting mask.', err));
+    return () => { cancelled = true; };
+    // Only a new starting mask should replace what has been painted.
+  }, [initialMask]);
+
+  const drawTo = (point: { x: number, y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * getImageScale();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) =>
+    clientToImagePoint(e.currentTarget, naturalWidth, naturalHeight, e.clientX, e.clientY);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const point = toImagePoint(e);
+    if (point) drawTo(point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    onMaskChange(hasPaint());
+  };
+
+  useImperativeHandle(ref, () => ({
+    toMaskFile: async () => {
+      const painted = canvasRef.current;
+      if (!painted || !hasPaint()) return null;
+
+      // Turn every painted pixel white, keeping its coverage as alpha.
+      const white = createCanvas(naturalWidth, naturalHeight);
+      white.ctx.drawImage(painted, 0, 0);
+      white.ctx.globalCompositeOperation = 'source-in';
+      white.ctx.fillStyle = '#fff';
+      white.ctx.fillRect(0, 0, naturalWidth, naturalHeight);
+
+      const { canvas, ctx } = createCanvas(naturalWidth, naturalHeight);
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, naturalWidth, naturalHeight);
+      const featherPx = feather * getImageScale();
+      if (featherPx > 0) {
+        ctx.filter = `blur(${featherPx}px)`;
+      }
+      ctx.drawImage(white.canvas, 0, 0);
+      return canvasToFile(canvas, `mask-${Date.now()}.png`);
+    },
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      onMaskChange(false);
+    },
+  }));
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={naturalWidth}
+      height={naturalHeight}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`opacity-50 touch-none cursor-crosshair ${className ?? ''}`}
+    />
+  );
+});
+
+MaskCanvas.displayName = 'MaskCanvas';
+
+export default MaskCanvas;
@@ -11,6 +11,13 @@ export interface DetectedObject extends ApiDetectedObject {
   id: string;
 }
 
+export interface ObjectEditOptions {
+  /** When true, only the object's bounding box is taken from the AI result. */
+  confineToBox: boolean;
+  /** Soft edge width in image pixels used when confining to the box. */
+  feather: number;
+}
+
 interface ObjectPanelProps {
   objects: DetectedObject[];
   isLoading: boolean;
@@ -20,11 +27,13 @@ interface ObjectPanelProps {
   hoveredObjectId: string | null;
   onSelectObject: (id: string) => void;
   onHoverObject: (id: string | null) => void;
-  onGenerateEdit: (prompt: string, objectId: string) => void;
+  onGenerateEdit: (prompt: string, objectId: string, options: ObjectEditOptions) => void;
 }
 
 const ObjectPanel: React.FC<ObjectPanelProps> = ({ objects, isLoading, isEditing, onDetect, selectedObjectId, hoveredObjectId, onSelectObject, onHoverObject, onGenerateEdit }) => {
   const [prompt, setPrompt] = useState('');
+  const [confineToBox, setConfineToBox] = useState(true);
+  const [feather, setFeather] = useState(16);
   
   const selectedObject = objects.find(o => o.id === selectedObjectId);
 
@@ -104,7 +113,7 @@ const ObjectPanel: React.FC<ObjectPanelProps> = ({ objects, isLoading, isEditing
           <p className="text-md text-gray-400 mb-2">
             Editing the selected <span className="font-bold text-cyan-400 capitalize">{`'${selectedObject.label}'`}</span>. Describe your change:
           </p>
-          <form onSubmit={(e) => { e.preventDefault(); onGenerateEdit(prompt, selectedObjectId!); }} className="w-full flex items-center gap-2">
+          <form onSubmit={(e) => { e.preventDefault(); onGenerateEdit(prompt, selectedObjectId!, { confineToBox, feather }); }} className="w-full flex items-center gap-2">
             <input
               type="text"
               value={prompt}
@@ -122,6 +131,34 @@ const ObjectPanel: React.FC<ObjectPanelProps> = ({ objects, isLoading, isEditing
               Generate
             </button>
           </form>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-3">
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={confineToBox}
+                onChange={(e) => setConfineToBox(e.target.checked)}
+                disabled={isEditing}
+                className="accent-blue-500"
+              />
+              Keep changes inside the box
+            </label>
+            <label className={`flex items-center gap-2 text-sm text-gray-400 ${confineToBox ? '' : 'opacity-50'}`}>
+              Edge feather
+              <input
+                type="range"
+                min={0}
+                max={64}
+                value={feather}
+                onChange={(e) => setFeather(Number(e.target.value))}
+                disabled={isEditing || !confineToBox}
+                className="accent-blue-500"
+              />
+              <span className="w-10 text-gray-300">{feather}px</span>
+            </label>
+          </div>
+          {!confineToBox && (
+            <p className="text-xs text-gray-500 mt-2">The full AI result will be used, so areas outside the box may change too.</p>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { drawOverlays, findOverlayAt, getOverlayHalfSize, loadOverlayImages, type OverlayImages, type OverlayItem } from '../utils/overlays';
+
+interface OverlayEditorProps {
+  naturalWidth: number;
+  naturalHeight: number;
+  items: OverlayItem[];
+  onItemsChange: (items: OverlayItem[]) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  className?: string;
+}
+
+// Drawn at screen size; the overlays are relative to the image, so they land in the same place at full size.
+const EDITOR_MAX_SIZE = 1600;
+
+/**
+ * Draws overlays over the displayed image. Click an overlay to select it and
+ * drag to move it.
+ */
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ naturalWidth, naturalHeight, items, onItemsChange, selectedId, onSelect, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ id: string; startX: number; startY: number; itemX: number; itemY: number } | null>(null);
+  const [images, setImages] = useState<OverlayImages>(new Map());
+
+  const scale = Math.min(1, EDITOR_MAX_SIZE / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayImages(items)
+        .then(loaded => !cancelled && setImages(loaded))
+        .catch(err => console.error('Failed to load a logo.', err));
+    return () => { cancelled = true; };
+    // Only a different set of logos needs decoding again.
+  }, [items.map(item => item.kind === 'logo' ? item.src : '').join('|')]);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, width, height);
+      drawOverlays(ctx, items, width, height, images);
+
+      const selected = items.find(item => item.id === selectedId);
+      const size = selected && getOverlayHalfSize(ctx, selected, width, height, images);
+      if (selected && size) {
+        ctx.save();
+        ctx.translate(selected.x * width, selected.y * height);
+        ctx.rotate(selected.rotation * Math.PI / 180);
+        ctx.strokeStyle = 'rgba(59, 130, 246, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(-size.halfWidth - 4, -size.halfHeight - 4, size.halfWidth * 2 + 8, size.halfHeight * 2 + 8);
+        ctx.restore();
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [items, images, selectedId, width, height]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width * width, y: (e.clientY - rect.top) / rect.height * height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || e.button !== 0) return;
+    const point = toCanvasPoint(e);
+    const id = findOverlayAt(ctx, items, width, height, images, point);
+    onSelect(id);
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { id: item.id, startX: point.x, startY: point.y, itemX: item.x, itemY: item.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const point = toCanvasPoint(e);
+    const x = Math.min(1, Math.max(0, drag.itemX + (point.x - drag.startX) / width));
+    const y = Math.min(1, Math.max(0, drag.itemY + (point.y - drag.startY) / height));
+    onItemsChange(items.map(item => item.id === drag.id ? { ...item, x, y } : item));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`touch-none cursor-move ${className ?? ''}`}
+    />
+  );
+};
+
+export default OverlayEditor;
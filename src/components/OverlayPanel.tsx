@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import type { WatermarkPreset } from '../services/watermarkStore';
+import {
+  createLogoOverlay,
+  createShapeOverlay,
+  createTextOverlay,
+  overlayFonts,
+  type OverlayFont,
+  type OverlayItem,
+  type ShapeKind,
+  type TextAlign,
+} from '../utils/overlays';
+
+interface OverlayPanelProps {
+  items: OverlayItem[];
+  onItemsChange: (items: OverlayItem[]) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onApply: () => void;
+  presets: WatermarkPreset[];
+  /** Saves the current overlays as a preset; throws if the browser's storage is full. */
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  isLoading: boolean;
+}
+
+const shapes: { value: ShapeKind; label: string }[] = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'arrow', label: 'Arrow' },
+];
+
+const alignments: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const describeItem = (item: OverlayItem): string => {
+  switch (item.kind) {
+    case 'text':
+      return item.text.split('\n')[0] || 'Text';
+    case 'shape':
+      return shapes.find(s => s.value === item.shape)?.label ?? 'Shape';
+    case 'logo':
+      return item.tile ? 'Logo (tiled)' : 'Logo';
+  }
+};
+
+const Slider: React.FC<{ label: string; min: number; max: number; step?: number; value: number; onChange: (value: number) => void; unit?: string }> = ({
+  label, min, max, step = 1, value, onChange, unit = '',
+}) => (
+  <label className="flex items-center gap-3 text-sm text-gray-400">
+    <span className="w-20">{label}</span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-grow accent-blue-500" />
+    <span className="w-12 text-right text-gray-300">{Number(value.toFixed(1))}{unit}</span>
+  </label>
+);
+
+const ColorInput: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-gray-400">
+    {label}
+    <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-8 h-8 bg-transparent rounded cursor-pointer" />
+  </label>
+);
+
+const OverlayPanel: React.FC<OverlayPanelProps> = ({
+  items, onItemsChange, selectedId, onSelect, onApply, presets, onSavePreset, onDeletePreset, isLoading,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = items.find(item => item.id === selectedId);
+
+  const addItem = (item: OverlayItem) => {
+    onItemsChange([...items, item]);
+    onSelect(item.id);
+  };
+
+  // Typed per kind so each editor only offers the fields its overlay has.
+  const update = <T extends OverlayItem>(item: T, changes: Partial<T>) => {
+    onItemsChange(items.map(i => i.id === item.id ? { ...item, ...changes } : i));
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addItem(await createLogoOverlay(file));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Could not read the logo.');
+    }
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    try {
+      onSavePreset(name);
+      setNotice(`Saved "${name}".`);
+      setPresetName('');
+    } catch (err) {
+      setNotice(`Could not save the preset. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const buttonClass = 'px-3 py-2 rounded-md text-sm font-semibold bg-white/10 hover:bg-white/20 text-gray-200 transition-all duration-200 active:scale-95 disabled:opacity-50';
+  const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+  const inputClass = 'bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-300">Overlays</h3>
+        <p className="text-sm text-gray-400">Add captions, shapes and logos, then drag them into place on the image.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => addItem(createTextOverlay())} disabled={isLoading} className={buttonClass}>Add Text</button>
+        {shapes.map(({ value, label }) => (
+          <button key={value} onClick={() => addItem(createShapeOverlay(value))} disabled={isLoading} className={buttonClass}>{label}</button>
+        ))}
+        <button onClick={() => logoInputRef.current?.click()} disabled={isLoading} className={buttonClass}>Add Logo</button>
+        <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+      </div>
+
+      {items.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {items.map(item => (
+            <button key={item.id} onClick={() => onSelect(item.id)} className={`${toggleClass(item.id === selectedId)} max-w-[12rem] truncate`}>
+              {describeItem(item)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="flex flex-col gap-3 bg-black/20 rounded-md p-3">
+          {selected.kind === 'text' && (
+            <>
+              <textarea
+                value={selected.text}
+                onChange={(e) => update(selected, { text: e.target.value })}
+                rows={2}
+                className={`${inputClass} w-full resize-y`}
+                aria-label="Text"
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <select value={selected.font} onChange={(e) => update(selected, { font: e.target.value as OverlayFont })} className={inputClass} aria-label="Font">
+                  {overlayFonts.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <button onClick={() => update(selected, { bold: !selected.bold })} className={toggleClass(selected.bold)}>Bold</button>
+                {alignments.map(({ value, label }) => (
+                  <button key={value} onClick={() => update(selected, { align: value })} className={toggleClass(selected.align === value)}>{label}</button>
+                ))}
+                <button onClick={() => update(selected, { shadow: !selected.shadow })} className={toggleClass(selected.shadow)}>Shadow</button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <ColorInput label="Color" value={selected.color} onChange={(color) => update(selected, { color })} />
+                <ColorInput label="Outline" value={selected.strokeColor} onChange={(strokeColor) => update(selected, { strokeColor })} />
+              </div>
+              <Slider label="Size" min={1} max={30} step={0.5} value={selected.size} onChange={(size) => update(selected, { size })} />
+              <Slider label="Outline" min={0} max={20} value={selected.strokeWidth} onChange={(strokeWidth) => update(selected, { strokeWidth })} />
+            </>
+          )}
+          {selected.kind === 'shape' && (
+            <>
+              <div className="flex flex-wrap items-center gap-4">
+                <ColorInput label="Line" value={selected.color} onChange={(color) => update(selected, { color })} />
+                {(selected.shape === 'rectangle' || selected.shape === 'ellipse') && (
+                  <>
+                    <button onClick={() => update(selected, { fill: selected.fill ? null : selected.color })} className={toggleClass(!!selected.fill)}>Fill</button>
+                    {selected.fill && <ColorInput label="Fill" value={selected.fill} onChange={(fill) => update(selected, { fill })} />}
+                  </>
+                )}
+              </div>
+              <Slider label={selected.shape === 'line' || selected.shape === 'arrow' ? 'Length' : 'Width'} min={2} max={100} value={Math.round(selected.width * 100)} onChange={(width) => update(selected, { width: width / 100 })} unit="%" />
+              {(selected.shape === 'rectangle' || selected.shape === 'ellipse') && (
+                <Slider label="Height" min={2} max={100} value={Math.round(selected.height * 100)} onChange={(height) => update(selected, { height: height / 100 })} unit="%" />
+              )}
+              <Slider label="Line width" min={0.2} max={5} step={0.1} value={selected.lineWidth} onChange={(lineWidth) => update(selected, { lineWidth })} />
+            </>
+          )}
+          {selected.kind === 'logo' && (
+            <>
+              <Slider label="Size" min={2} max={100} value={Math.round(selected.width * 100)} onChange={(width) => update(selected, { width: width / 100 })} unit="%" />
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input type="checkbox" checked={selected.tile} onChange={(e) => update(selected, { tile: e.target.checked })} className="accent-blue-500" />
+                Tile across the image
+              </label>
+              {selected.tile && (
+                <Slider label="Spacing" min={0} max={300} value={Math.round(selected.spacing * 100)} onChange={(spacing) => update(selected, { spacing: spacing / 100 })} unit="%" />
+              )}
+            </>
+          )}
+          <Slider label="Opacity" min={0} max={100} value={Math.round(selected.opacity * 100)} onChange={(opacity) => update(selected, { opacity: opacity / 100 })} unit="%" />
+          <Slider label="Rotation" min={-180} max={180} value={selected.rotation} onChange={(rotation) => update(selected, { rotation })} unit="°" />
+          <div className="flex justify-end">
+            <button
+              onClick={() => {
+                onItemsChange(items.filter(item => item.id !== selected.id));
+                onSelect(null);
+              }}
+              className="text-sm text-red-400 hover:text-red-300"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 border-t border-white/10 pt-3">
+        <span className="text-sm font-medium text-gray-400">Watermark presets</span>
+        <form onSubmit={handleSavePreset} className="flex gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className={`${inputClass} flex-grow`}
+          />
+          <button type="submit" disabled={!presetName.trim() || items.length === 0} className={buttonClass}>Save Overlays</button>
+        </form>
+        {presets.length > 0 ? (
+          <ul className="flex flex-col gap-1">
+            {presets.map(preset => (
+              <li key={preset.id} className="flex items-center gap-2 bg-white/5 rounded-md px-3 py-2 text-sm">
+                <span className="flex-grow truncate text-gray-200">{preset.name}</span>
+                <button onClick={() => { onItemsChange(preset.items); onSelect(null); }} disabled={isLoading} className="text-blue-400 hover:text-blue-300 disabled:text-gray-500">Load</button>
+                <button onClick={() => onDeletePreset(preset.id)} className="text-red-400 hover:text-red-300">Delete</button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">Saved presets can be stamped on every download from the Download menu.</p>
+        )}
+        {notice && <p className="text-xs text-gray-400">{notice}</p>}
+      </div>
+
+      <button
+        onClick={onApply}
+        disabled={isLoading || items.length === 0}
+        className="w-full max-w-xs mx-auto bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        Apply Overlays
+      </button>
+    </div>
+  );
+};
+
+export default OverlayPanel;
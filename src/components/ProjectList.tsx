@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import type { ProjectRecord } from '../services/projectStore';
+import { formatFileSize } from '../utils/exportImage';
+
+interface ProjectListProps {
+  projects: ProjectRecord[];
+  onOpenProject: (projectId: string) => void;
+  onDeleteProject: (projectId: string) => void;
+}
+
+const ProjectThumbnail: React.FC<{ blob?: Blob; name: string }> = ({ blob, name }) => {
+  const url = useObjectUrl(blob);
+
+  return url
+    ? <img src={url} alt={name} className="w-full aspect-video object-cover rounded-md bg-black/40" />
+    : <div className="w-full aspect-video rounded-md bg-black/40" />;
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ projects, onOpenProject, onDeleteProject }) => {
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full mt-12 text-left">
+      <h2 className="text-2xl font-bold text-gray-100 mb-4">Recent Projects</h2>
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {projects.map(project => (
+          <div key={project.id} className="group relative bg-black/20 p-2 rounded-lg border border-gray-700/50 hover:border-blue-400/60 transition-colors">
+            <button onClick={() => onOpenProject(project.id)} className="w-full text-left" aria-label={`Open ${project.name}`}>
+              <ProjectThumbnail blob={project.thumbnail} name={project.name} />
+              <p className="mt-2 font-semibold text-gray-200 truncate">{project.name}</p>
+              <p className="text-xs text-gray-400">
+                {project.entryIds.length} {project.entryIds.length === 1 ? 'step' : 'steps'} · {formatFileSize(project.sizeBytes)}
+              </p>
+              <p className="text-xs text-gray-500">{new Date(project.updatedAt).toLocaleString()}</p>
+            </button>
+            <button
+              onClick={() => onDeleteProject(project.id)}
+              className="absolute top-3 right-3 text-xs font-semibold text-white bg-black/60 hover:bg-red-500/80 px-2 py-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label={`Delete ${project.name}`}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
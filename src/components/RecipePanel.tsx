@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { parseRecipe, serializeRecipe, type Recipe, type RecipeStep } from '../services/recipes';
+import { describeAdjustments } from '../utils/adjustments';
+import { describeTransform } from '../utils/transform';
+import { operationLabels } from './HistoryTimeline';
+
+/** Progress of a recipe being replayed on the current image. */
+export interface RecipeRun {
+  recipe: Recipe;
+  /** Index of the next step to run; equals the step count once finished. */
+  stepIndex: number;
+  status: 'ready' | 'running' | 'paused' | 'failed' | 'done';
+  error?: string;
+}
+
+interface RecipePanelProps {
+  recipes: Recipe[];
+  /** Records the steps up to the current image; resolves to how many were recorded and skipped. */
+  onRecord: (name: string) => Promise<{ recorded: number; skipped: number }>;
+  onSave: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  run: RecipeRun | null;
+  onStartRun: (recipe: Recipe) => void;
+  onRunSteps: (count: number) => void;
+  onSkipStep: () => void;
+  onStopRun: () => void;
+  canRecord: boolean;
+  isLoading: boolean;
+}
+
+const describeStep = (step: RecipeStep): string => {
+  switch (step.operation) {
+    case 'adjustment':
+      return 'settings' in step ? describeAdjustments(step.settings) : step.prompt;
+    case 'filter':
+      return 'grade' in step ? (step.grade.lut ? `Curves + ${step.grade.lut.name}` : 'Curves') : step.prompt;
+    case 'retouch':
+    case 'style':
+    case 'background':
+      return step.prompt;
+    case 'object-edit':
+      return `${step.label}: ${step.prompt}`;
+    case 'crop': {
+      const area = step.aspect ? `Aspect ${Number(step.aspect.toFixed(3))}` : `${Math.round(step.width * 100)}% × ${Math.round(step.height * 100)}%`;
+      return step.transform ? `${area}, ${describeTransform(step.transform)}` : area;
+    }
+    case 'upscale':
+      return `${step.resolution}${step.method === 'local' ? ' (fast)' : ''}`;
+  }
+};
+
+const downloadRecipe = (recipe: Recipe) => {
+  const url = URL.createObjectURL(new Blob([serializeRecipe(recipe)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${recipe.name.replace(/[^\w-]+/g, '-') || 'recipe'}.recipe.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const RecipePanel: React.FC<RecipePanelProps> = ({
+  recipes, onRecord, onSave, onDelete, run, onStartRun, onRunSteps, onSkipStep, onStopRun, canRecord, isLoading,
+}) => {
+  const [name, setName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const { recorded, skipped } = await onRecord(name.trim());
+      setNotice(`Saved "${name.trim()}" with ${recorded} ${recorded === 1 ? 'step' : 'steps'}.`
+        + (skipped > 0 ? ` ${skipped} ${skipped === 1 ? 'step was' : 'steps were'} left out because ${skipped === 1 ? 'it depends' : 'they depend'} on a painted mask or uploaded file.` : ''));
+      setName('');
+    } catch (err) {
+      setNotice(`Could not save the recipe. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const recipe = parseRecipe(await file.text());
+      onSave(recipe);
+      setNotice(`Imported "${recipe.name}".`);
+    } catch (err) {
+      setNotice(`Could not import ${file.name}. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  if (run) {
+    const { recipe, stepIndex, status } = run;
+    const remaining = recipe.steps.length - stepIndex;
+    return (
+      <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-gray-300">Replaying "{recipe.name}"</h3>
+          <button onClick={onStopRun} disabled={isLoading} className="text-sm font-semibold text-gray-300 hover:text-white disabled:text-gray-500">
+            {status === 'done' ? 'Close' : 'Stop'}
+          </button>
+        </div>
+        <ol className="flex flex-col gap-2">
+          {recipe.steps.map((step, index) => {
+            const state = index < stepIndex ? 'done' : index === stepIndex ? status : 'pending';
+            return (
+              <li key={index} className={`flex items-center gap-3 rounded-md px-3 py-2 ${index === stepIndex && status !== 'done' ? 'bg-blue-500/10 border border-blue-400/40' : 'bg-black/20 border border-transparent'}`}>
+                <span className={`text-sm font-bold ${state === 'done' ? 'text-green-400' : state === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                  {state === 'done' ? '✓' : `${index + 1}.`}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold text-gray-200">{operationLabels[step.operation]}</p>
+                  <p className="text-xs text-gray-400 truncate">{describeStep(step)}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+        {status === 'failed' && <p className="text-sm text-red-400">Step {stepIndex + 1} failed: {run.error}</p>}
+        {status === 'done' ? (
+          <p className="text-sm text-green-400">All steps applied. Each one is in the history, so you can step back through them.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onRunSteps(1)}
+              disabled={isLoading}
+              className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {status === 'failed' ? 'Retry Step' : `Run Step ${stepIndex + 1}`}
+            </button>
+            <button
+              onClick={() => onRunSteps(remaining)}
+              disabled={isLoading}
+              className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed"
+            >
+              Run Remaining ({remaining})
+            </button>
+            <button
+              onClick={onSkipStep}
+              disabled={isLoading}
+              className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 px-2"
+            >
+              Skip Step
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full bg-gray-900/20 border border-white/10 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-xl">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Recipes</h3>
+
+      <form onSubmit={handleRecord} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name the edits so far, e.g. 'Warm product shot'"
+          disabled={isLoading || !canRecord}
+          className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:cursor-not-allowed disabled:opacity-60"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !canRecord || !name.trim()}
+          className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-5 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          Save Recipe
+        </button>
+      </form>
+      {!canRecord && <p className="text-xs text-gray-500 -mt-2">Make some edits first; every step up to the current image is recorded.</p>}
+      {notice && <p className="text-sm text-gray-400">{notice}</p>}
+
+      {recipes.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {recipes.map(recipe => (
+            <li key={recipe.id} className="flex items-center gap-3 bg-black/20 rounded-md px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-semibold text-gray-200 truncate">{recipe.name}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {recipe.steps.map(step => operationLabels[step.operation]).join(' → ') || 'No steps'}
+                </p>
+              </div>
+              <button onClick={() => onStartRun(recipe)} disabled={isLoading || recipe.steps.length === 0} className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">Replay</button>
+              <button onClick={() => downloadRecipe(recipe)} className="text-sm text-gray-300 hover:text-white">Export</button>
+              <button onClick={() => onDelete(recipe.id)} disabled={isLoading} className="text-sm text-red-400 hover:text-red-300 disabled:text-gray-500">Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="self-center text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+        Import Recipe File
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+    </div>
+  );
+};
+
+export default RecipePanel;
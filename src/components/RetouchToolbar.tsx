@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type BrushMode } from './MaskCanvas';
+
+export type RetouchMode = 'point' | 'mask';
+
+interface RetouchToolbarProps {
+  mode: RetouchMode;
+  onModeChange: (mode: RetouchMode) => void;
+  brushMode: BrushMode;
+  onBrushModeChange: (mode: BrushMode) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  hasMask: boolean;
+  onClearMask: () => void;
+  isLoading: boolean;
+}
+
+const RetouchToolbar: React.FC<RetouchToolbarProps> = ({
+  mode, onModeChange, brushMode, onBrushModeChange, brushSize, onBrushSizeChange, feather, onFeatherChange, hasMask, onClearMask, isLoading,
+}) => {
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+  }`;
+
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Select by:</span>
+        <button onClick={() => onModeChange('point')} disabled={isLoading} className={toggleClass(mode === 'point')}>Point</button>
+        <button onClick={() => onModeChange('mask')} disabled={isLoading} className={toggleClass(mode === 'mask')}>Brush Mask</button>
+      </div>
+
+      {mode === 'mask' && (
+        <>
+          <div className="flex items-center gap-2">
+            <button onClick={() => onBrushModeChange('paint')} disabled={isLoading} className={toggleClass(brushMode === 'paint')}>Paint</button>
+            <button onClick={() => onBrushModeChange('erase')} disabled={isLoading} className={toggleClass(brushMode === 'erase')}>Erase</button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Size
+            <input type="range" min={5} max={150} value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} disabled={isLoading} className="accent-blue-500" />
+            <span className="w-8 text-gray-300">{brushSize}</span>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Feather
+            <input type="range" min={0} max={50} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} disabled={isLoading} className="accent-blue-500" />
+            <span className="w-8 text-gray-300">{feather}</span>
+          </label>
+          <button
+            onClick={onClearMask}
+            disabled={isLoading || !hasMask}
+            className="text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Clear Mask
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RetouchToolbar;
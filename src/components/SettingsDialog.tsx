@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { clearCache, getCacheStats, type CacheStats } from '../services/resultCache';
+import { formatFileSize } from '../utils/exportImage';
+
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [cacheError, setCacheError] = useState<string | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCacheStats().then(result => !cancelled && setStats(result)).catch(err => {
+      console.error('Failed to read the result cache.', err);
+      if (!cancelled) setCacheError('The result cache is not available in this browser.');
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleClearCache = async () => {
+    setIsClearing(true);
+    try {
+      await clearCache();
+      setStats({ count: 0, sizeBytes: 0 });
+    } catch (err) {
+      console.error('Failed to clear the result cache.', err);
+      setCacheError('Could not clear the result cache.');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-6 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-6 flex flex-col gap-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-100">Settings</h3>
+          <button onClick={onClose} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md">
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <p className="text-sm font-semibold text-gray-300">Result cache</p>
+          <p className="text-xs text-gray-400">
+            Results from the model are kept in this browser, so repeating an edit on the same image is instant and free.
+            Use Regenerate to ask the model again.
+          </p>
+          <div className="flex items-center justify-between gap-4 bg-black/20 rounded-lg p-3">
+            <div className="text-sm text-gray-300">
+              {cacheError ? (
+                <span className="text-red-400">{cacheError}</span>
+              ) : stats ? (
+                <>
+                  <span className="font-semibold text-white">{stats.count}</span> {stats.count === 1 ? 'result' : 'results'}
+                  {stats.count > 0 && <> · <span className="font-semibold text-white">{formatFileSize(stats.sizeBytes)}</span></>}
+                </>
+              ) : (
+                <span className="text-gray-400">Calculating size...</span>
+              )}
+            </div>
+            <button
+              onClick={handleClearCache}
+              disabled={isClearing || !stats || stats.count === 0}
+              className="text-sm font-semibold text-white bg-red-500/80 hover:bg-red-500 px-4 py-2 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isClearing ? 'Clearing...' : 'Clear Cache'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default SettingsDialog;
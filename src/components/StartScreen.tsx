@@ -5,16 +5,23 @@
 
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, BackgroundIcon } from './icons';
+import ProjectList from './ProjectList';
+import type { ProjectRecord } from '../services/projectStore';
+import { getDroppedImageFiles, getImageFiles } from '../utils/files';
 
 interface StartScreenProps {
-  onFileSelect: (files: FileList | null) => void;
+  /** Called with the chosen images; more than one starts batch mode. */
+  onFileSelect: (files: File[]) => void;
+  projects: ProjectRecord[];
+  onOpenProject: (projectId: string) => void;
+  onDeleteProject: (projectId: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, projects, onOpenProject, onDeleteProject }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onFileSelect(e.target.files);
+    onFileSelect(getImageFiles(e.target.files));
   };
 
   return (
@@ -25,7 +32,9 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
       onDrop={(e) => {
         e.preventDefault();
         setIsDraggingOver(false);
-        onFileSelect(e.dataTransfer.files);
+        getDroppedImageFiles(e.dataTransfer)
+          .then(onFileSelect)
+          .catch(err => console.error('Failed to read the dropped files.', err));
       }}
     >
       <div className="flex flex-col items-center gap-6 animate-fade-in">
@@ -41,10 +50,17 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
                 <UploadIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:rotate-[360deg] group-hover:scale-110" />
                 Upload an Image
             </label>
-            <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
-            <p className="text-sm text-gray-500">or drag and drop a file</p>
+            <input id="image-upload-start" type="file" className="hidden" accept="image/*" multiple onChange={handleFileChange} />
+            <p className="text-sm text-gray-500">
+              or drag and drop a file. Select several images or{' '}
+              <label htmlFor="folder-upload-start" className="text-blue-400 hover:text-blue-300 cursor-pointer">a folder</label>
+              {' '}to process them in a batch.
+            </p>
+            <input id="folder-upload-start" type="file" className="hidden" {...{ webkitdirectory: '' }} onChange={handleFileChange} />
         </div>
 
+        <ProjectList projects={projects} onOpenProject={onOpenProject} onDeleteProject={onDeleteProject} />
+
         <div className="mt-16 w-full">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
                 <div className="bg-black/20 p-6 rounded-lg border border-gray-700/50 flex flex-col items-center text-center">
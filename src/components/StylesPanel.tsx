@@ -3,49 +3,143 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { deleteCustomStyle, listCustomStyles, saveCustomStyle, type CustomStyle } from '../services/styleStore';
+import { createId } from '../utils/id';
+import { createPreviewSource, renderStylePreview } from '../utils/stylePreview';
+
+export type StyleStrength = 'subtle' | 'medium' | 'strong';
+
+/** Which style was applied, for recording in history. */
+export interface AppliedStyle {
+  name: string;
+  strength: StyleStrength;
+}
 
 interface StylesPanelProps {
-  onApplyStyle: (prompt: string) => void;
+  onApplyStyle: (prompt: string, style: AppliedStyle) => void;
+  /** The image the thumbnails preview the styles on. */
+  sourceImage: File | null;
   isLoading: boolean;
 }
 
-const styles = [
+const strengthInstructions: Record<StyleStrength, string> = {
+  subtle: 'Apply this style subtly: keep the effect light so the original colors and mood still come through.',
+  medium: 'Apply this style at a balanced, moderate intensity.',
+  strong: 'Apply this style at full strength for a bold, unmistakable transformation.',
+};
+
+// How strongly the thumbnail gradient is blended in for each strength.
+const strengthPreviewIntensity: Record<StyleStrength, number> = {
+  subtle: 0.3,
+  medium: 0.55,
+  strong: 0.8,
+};
+
+/**
+ * Combines a style prompt with the instruction for the chosen strength.
+ */
+export const buildStylePrompt = (prompt: string, strength: StyleStrength): string =>
+  `${prompt}\n\n${strengthInstructions[strength]}`;
+
+const builtInStyles = [
   { 
     name: 'Vintage Film', 
     prompt: "Apply a vintage film look to the image, characterized by faded colors, a slight yellow tint, increased grain, and soft contrast. The blacks should be slightly lifted, and there should be a subtle vignette effect around the edges.",
-    css: 'from-amber-400 via-stone-500 to-gray-600'
+    css: 'from-amber-400 via-stone-500 to-gray-600',
+    colors: ['#fbbf24', '#78716c', '#4b5563'],
   },
   { 
     name: 'Neon Noir', 
     prompt: "Transform the image into a neon noir style. Dramatically increase contrast, crush the blacks, and introduce vibrant, glowing neon colors like electric blue, hot pink, and deep purple into the highlights and midtones. The overall mood should be dark, gritty, and futuristic.",
-    css: 'from-pink-500 via-purple-600 to-blue-700'
+    css: 'from-pink-500 via-purple-600 to-blue-700',
+    colors: ['#ec4899', '#9333ea', '#1d4ed8'],
   },
   { 
     name: 'Golden Hour', 
     prompt: "Bathe the image in a warm, golden hour light. Enhance the orange and yellow tones, soften the shadows, and add a gentle, hazy glow to the highlights to simulate the look of late afternoon sun.",
-    css: 'from-orange-400 via-amber-500 to-yellow-300'
+    css: 'from-orange-400 via-amber-500 to-yellow-300',
+    colors: ['#fb923c', '#f59e0b', '#fde047'],
   },
   { 
     name: 'Monochrome', 
     prompt: "Convert the image to a high-impact, dramatic black and white. Push the contrast to its limits, creating deep, inky blacks and bright, clean whites. Emphasize textures and forms for a powerful, moody, and timeless effect.",
-    css: 'from-gray-900 via-gray-500 to-gray-100'
+    css: 'from-gray-900 via-gray-500 to-gray-100',
+    colors: ['#111827', '#6b7280', '#f3f4f6'],
   },
   { 
     name: 'Dreamy Pastel', 
     prompt: "Give the image a soft, dreamy aesthetic using a pastel color palette. Desaturate the original colors and shift them towards soft pinks, baby blues, and mint greens. Apply a gentle soft-focus or bloom effect to enhance the ethereal quality.",
-    css: 'from-pink-300 via-sky-300 to-emerald-200'
+    css: 'from-pink-300 via-sky-300 to-emerald-200',
+    colors: ['#f9a8d4', '#7dd3fc', '#a7f3d0'],
   },
   { 
     name: 'Cyberpunk', 
     prompt: "Apply a cyberpunk aesthetic. Add glowing neon signs, rainy reflections on surfaces, and a cool, blue-cyan color grade. Introduce elements of futuristic technology and a high-tech, dystopian atmosphere.",
-    css: 'from-cyan-400 via-blue-500 to-purple-600'
+    css: 'from-cyan-400 via-blue-500 to-purple-600',
+    colors: ['#22d3ee', '#3b82f6', '#9333ea'],
   },
 ];
 
-const StylesPanel: React.FC<StylesPanelProps> = ({ onApplyStyle, isLoading }) => {
-  const handleApply = (prompt: string) => {
-    onApplyStyle(prompt);
+const StylesPanel: React.FC<StylesPanelProps> = ({ onApplyStyle, sourceImage, isLoading }) => {
+  const [strength, setStrength] = useState<StyleStrength>('medium');
+  const [customStyles, setCustomStyles] = useState<CustomStyle[]>(listCustomStyles);
+  const [previewSource, setPreviewSource] = useState<HTMLCanvasElement | null>(null);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPrompt, setNewPrompt] = useState('');
+  const [newColors, setNewColors] = useState(['#3b82f6', '#f59e0b']);
+
+  const allStyles = [
+    ...builtInStyles.map(style => ({ ...style, id: style.name, isCustom: false })),
+    ...customStyles.map(style => ({ ...style, css: '', isCustom: true })),
+  ];
+
+  // Downscale the image once; every thumbnail is rendered from this copy.
+  useEffect(() => {
+    if (!sourceImage) {
+      setPreviewSource(null);
+      return;
+    }
+    let cancelled = false;
+    createPreviewSource(sourceImage)
+      .then(canvas => { if (!cancelled) setPreviewSource(canvas); })
+      .catch(err => console.error('Failed to prepare style previews.', err));
+    return () => { cancelled = true; };
+  }, [sourceImage]);
+
+  useEffect(() => {
+    if (!previewSource) {
+      setPreviews({});
+      return;
+    }
+    const intensity = strengthPreviewIntensity[strength];
+    setPreviews(Object.fromEntries(
+      [
+        ...builtInStyles.map(style => [style.name, renderStylePreview(previewSource, style.colors, intensity)]),
+        ...customStyles.map(style => [style.id, renderStylePreview(previewSource, style.colors, intensity)]),
+      ],
+    ));
+  }, [previewSource, strength, customStyles]);
+
+  const handleApply = (prompt: string, name: string) => {
+    onApplyStyle(buildStylePrompt(prompt, strength), { name, strength });
+  };
+
+  const handleSaveCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || !newPrompt.trim()) return;
+    saveCustomStyle({ id: createId(), name: newName.trim(), prompt: newPrompt.trim(), colors: newColors, createdAt: Date.now() });
+    setCustomStyles(listCustomStyles());
+    setNewName('');
+    setNewPrompt('');
+    setIsCreating(false);
+  };
+
+  const handleDeleteCustom = (id: string) => {
+    deleteCustomStyle(id);
+    setCustomStyles(listCustomStyles());
   };
 
   return (
@@ -53,18 +147,95 @@ const StylesPanel: React.FC<StylesPanelProps> = ({ onApplyStyle, isLoading }) =>
       <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Style Template</h3>
       <p className="text-sm text-gray-400 text-center -mt-2">Select a style to transform the look and feel of your image.</p>
 
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-        {styles.map(style => (
+      <div className="flex items-center justify-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Strength:</span>
+        {(['subtle', 'medium', 'strong'] as StyleStrength[]).map(level => (
           <button
-            key={style.name}
-            onClick={() => handleApply(style.prompt)}
+            key={level}
+            onClick={() => setStrength(level)}
             disabled={isLoading}
-            className={`w-full text-center aspect-video flex items-center justify-center bg-gradient-to-br border border-white/20 text-white font-bold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:scale-105 hover:border-white/40 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${style.css}`}
+            className={`px-4 py-2 rounded-md text-sm font-semibold capitalize transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              strength === level
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
           >
-            {style.name}
+            {level}
           </button>
         ))}
       </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {allStyles.map(style => (
+          <div key={style.id} className="relative group">
+            <button
+              onClick={() => handleApply(style.prompt, style.name)}
+              disabled={isLoading}
+              title={style.prompt}
+              style={previews[style.id] ? { backgroundImage: `url(${previews[style.id]})` } : style.isCustom ? { backgroundImage: `linear-gradient(to bottom right, ${style.colors.join(', ')})` } : undefined}
+              className={`w-full text-center aspect-video flex items-end justify-center bg-cover bg-center bg-gradient-to-br border border-white/20 text-white font-bold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:scale-105 hover:border-white/40 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${style.css}`}
+            >
+              <span className="bg-black/50 px-2 py-0.5 rounded">{style.name}</span>
+            </button>
+            {style.isCustom && (
+              <button
+                onClick={() => handleDeleteCustom(style.id)}
+                disabled={isLoading}
+                className="absolute top-2 right-2 text-xs font-semibold text-white bg-black/60 hover:bg-red-500/80 px-2 py-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={`Delete ${style.name}`}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isCreating ? (
+        <form onSubmit={handleSaveCustom} className="flex flex-col gap-2 bg-black/20 rounded-md p-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Style name"
+            className="bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <textarea
+            value={newPrompt}
+            onChange={(e) => setNewPrompt(e.target.value)}
+            placeholder="Describe the look, e.g. 'muted teal shadows, creamy highlights and soft film grain'"
+            rows={3}
+            className="bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-400">Thumbnail colors:</span>
+            {newColors.map((color, i) => (
+              <input
+                key={i}
+                type="color"
+                value={color}
+                onChange={(e) => setNewColors(colors => colors.map((c, j) => j === i ? e.target.value : c))}
+                className="w-10 h-8 bg-transparent rounded cursor-pointer"
+                aria-label={`Thumbnail color ${i + 1}`}
+              />
+            ))}
+            <div className="ml-auto flex gap-2">
+              <button type="button" onClick={() => setIsCreating(false)} className="text-sm font-semibold text-gray-300 hover:text-white px-3">Cancel</button>
+              <button
+                type="submit"
+                disabled={!newName.trim() || !newPrompt.trim()}
+                className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-4 rounded-md transition-all active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+              >
+                Save Style
+              </button>
+            </div>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => setIsCreating(true)} disabled={isLoading} className="self-center text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+          + Save a Custom Style
+        </button>
+      )}
     </div>
   );
 };
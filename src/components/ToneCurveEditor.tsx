@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { buildCurveTable, type CurveChannel, type CurvePoint, type ToneCurves } from '../utils/colorGrade';
+
+interface ToneCurveEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves) => void;
+  disabled: boolean;
+}
+
+const channels: { key: CurveChannel; label: string; color: string }[] = [
+  { key: 'rgb', label: 'RGB', color: '#e5e7eb' },
+  { key: 'red', label: 'Red', color: '#f87171' },
+  { key: 'green', label: 'Green', color: '#4ade80' },
+  { key: 'blue', label: 'Blue', color: '#60a5fa' },
+];
+
+const clampValue = (v: number) => Math.round(Math.max(0, Math.min(255, v)));
+
+/**
+ * Click the graph to add a point, drag points to shape the curve and
+ * double-click a point to remove it. The end points only move vertically.
+ */
+const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ curves, onChange, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = curves[channel];
+  const color = channels.find(c => c.key === channel)!.color;
+
+  const path = useMemo(() => {
+    const table = buildCurveTable(points);
+    return Array.from(table, (y, x) => `${x === 0 ? 'M' : 'L'}${x} ${255 - y}`).join(' ');
+  }, [points]);
+
+  const toCurvePoint = (e: React.PointerEvent): CurvePoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: clampValue((e.clientX - rect.left) / rect.width * 255),
+      y: clampValue(255 - (e.clientY - rect.top) / rect.height * 255),
+    };
+  };
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  // Moves a point without letting it pass its neighbours, which keeps the curve a function.
+  const movePoint = (index: number, target: CurvePoint) => {
+    const isEnd = index === 0 || index === points.length - 1;
+    const x = isEnd ? points[index].x : Math.min(points[index + 1].x - 1, Math.max(points[index - 1].x + 1, target.x));
+    setPoints(points.map((p, i) => (i === index ? { x, y: target.y } : p)));
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const point = toCurvePoint(e);
+    if (!point) return;
+    const insertAt = points.findIndex(p => p.x > point.x);
+    // Points must stay strictly ordered by x, so clicks on an existing x are ignored.
+    if (insertAt <= 0 || points.some(p => p.x === point.x)) return;
+    setPoints([...points.slice(0, insertAt), point, ...points.slice(insertAt)]);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(insertAt);
+  };
+
+  const handlePointPointerDown = (e: React.PointerEvent<SVGCircleElement>, index: number) => {
+    if (disabled) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const point = toCurvePoint(e);
+    if (point) movePoint(dragIndex, point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    setDragIndex(null);
+  };
+
+  const removePoint = (index: number) => {
+    if (disabled || index === 0 || index === points.length - 1) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-2">
+        {channels.map(c => (
+          <button
+            key={c.key}
+            onClick={() => setChannel(c.key)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${channel === c.key ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: c.color }} />
+            {c.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setPoints([{ x: 0, y: 0 }, { x: 255, y: 255 }])}
+          disabled={disabled}
+          className="text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500 ml-2"
+        >
+          Reset Curve
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        onPointerDown={handleBackgroundPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full max-w-xs aspect-square bg-black/40 rounded-md touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="rgba(255,255,255,0.1)" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={255} />
+            <line x1={0} y1={v} x2={255} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="rgba(255,255,255,0.2)" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={color} strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={255 - p.y}
+            r={dragIndex === i ? 6 : 5}
+            fill={color}
+            stroke="#111827"
+            strokeWidth={2}
+            onPointerDown={(e) => handlePointPointerDown(e, i)}
+            onDoubleClick={() => removePoint(i)}
+            className="cursor-grab"
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default ToneCurveEditor;
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../utils/image';
+import { drawTransformed, type ImageTransform } from '../utils/transform';
+
+interface TransformPreviewProps {
+  image: File;
+  transform: ImageTransform;
+  /** Called with the natural size of the image once it has been decoded. */
+  onLoad?: (size: { width: number; height: number }) => void;
+  className?: string;
+}
+
+// Drawn at screen size so the straighten slider stays responsive.
+const PREVIEW_MAX_SIZE = 1600;
+
+/**
+ * Shows an image rotated and flipped as it will be cropped.
+ */
+const TransformPreview: React.FC<TransformPreviewProps> = ({ image, transform, onLoad, className }) => {
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image).then(img => {
+      if (cancelled) return;
+      setSource(img);
+      onLoad?.({ width: img.naturalWidth, height: img.naturalHeight });
+    });
+    return () => { cancelled = true; };
+  }, [image, onLoad]);
+
+  useEffect(() => {
+    if (!source) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const { naturalWidth: width, naturalHeight: height } = source;
+      const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(width, height));
+      const preview = drawTransformed(source, width, height, transform, scale);
+      canvas.width = preview.width;
+      canvas.height = preview.height;
+      ctx.drawImage(preview, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, transform]);
+
+  return <canvas ref={canvasRef} className={`block ${className ?? ''}`} />;
+};
+
+export default TransformPreview;
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { loadImage } from '../utils/image';
+
+interface UpscaleReviewProps {
+  /** The image that was upscaled. */
+  original: File;
+  upscaled: File;
+  /** Shown in the title, e.g. '4K'. */
+  resolutionLabel: string;
+  onAddToHistory: () => void;
+  onDownload: () => void;
+  onDiscard: () => void;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const LOUPE_SIZE = 220;
+const loupeZooms = [1, 2, 4];
+
+const useImageSize = (file: File): Size | null => {
+  const [size, setSize] = useState<Size | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(file).then(img => !cancelled && setSize({ width: img.naturalWidth, height: img.naturalHeight }));
+    return () => { cancelled = true; };
+  }, [file]);
+  return size;
+};
+
+/**
+ * Full-screen review of an upscaled image before it is kept. A split slider
+ * compares it with the original, and a loupe under the pointer shows pixels
+ * at 1:1 or closer, from whichever side of the split the pointer is on.
+ */
+const UpscaleReview: React.FC<UpscaleReviewProps> = ({ original, upscaled, resolutionLabel, onAddToHistory, onDownload, onDiscard }) => {
+  const originalUrl = useObjectUrl(original);
+  const upscaledUrl = useObjectUrl(upscaled);
+  const originalSize = useImageSize(original);
+  const upscaledSize = useImageSize(upscaled);
+
+  const [split, setSplit] = useState(50);
+  const [loupeZoom, setLoupeZoom] = useState(1);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [fitted, setFitted] = useState<Size | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  // Fits the comparison into the available space so both images share one box.
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area || !upscaledSize) return;
+    const fit = () => {
+      const scale = Math.min(area.clientWidth / upscaledSize.width, area.clientHeight / upscaledSize.height);
+      setFitted({ width: upscaledSize.width * scale, height: upscaledSize.height * scale });
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, [upscaledSize]);
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPointer({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const index = loupeZooms.indexOf(loupeZoom) + (e.deltaY < 0 ? 1 : -1);
+    setLoupeZoom(loupeZooms[Math.max(0, Math.min(loupeZooms.length - 1, index))]);
+  };
+
+  const showsOriginal = pointer !== null && pointer.x * 100 < split;
+  const loupeStyle: React.CSSProperties | undefined = pointer && fitted && upscaledSize ? {
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    left: pointer.x * fitted.width - LOUPE_SIZE / 2,
+    top: pointer.y * fitted.height - LOUPE_SIZE / 2,
+    backgroundImage: `url(${showsOriginal ? originalUrl : upscaledUrl})`,
+    // One upscaled pixel per screen pixel at 1:1; the original is stretched to the same scale.
+    backgroundSize: `${upscaledSize.width * loupeZoom}px ${upscaledSize.height * loupeZoom}px`,
+    backgroundPosition: `${LOUPE_SIZE / 2 - pointer.x * upscaledSize.width * loupeZoom}px ${LOUPE_SIZE / 2 - pointer.y * upscaledSize.height * loupeZoom}px`,
+    imageRendering: loupeZoom > 1 ? 'pixelated' : 'auto',
+  } : undefined;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/80 z-50 flex flex-col p-6 gap-4 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-gray-100">
+            Upscaled to {resolutionLabel}
+            {upscaledSize && <span className="text-gray-400 font-normal"> · {upscaledSize.width} × {upscaledSize.height} px</span>}
+          </h3>
+          {originalSize && <p className="text-sm text-gray-400">From {originalSize.width} × {originalSize.height} px. Hover to inspect pixels; scroll to zoom the loupe.</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-400">Loupe</span>
+          {loupeZooms.map(zoom => (
+            <button
+              key={zoom}
+              onClick={() => setLoupeZoom(zoom)}
+              className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors ${loupeZoom === zoom ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {zoom === 1 ? '1:1' : `${zoom}:1`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={areaRef} className="flex-1 min-h-0 flex items-center justify-center">
+        {fitted && originalUrl && upscaledUrl && (
+          <div
+            className="relative cursor-crosshair overflow-hidden rounded-md bg-black/40"
+            style={{ width: fitted.width, height: fitted.height }}
+            onPointerMove={handlePointerMove}
+            onPointerLeave={() => setPointer(null)}
+            onWheel={handleWheel}
+          >
+            <img src={upscaledUrl} alt="Upscaled" className="absolute inset-0 w-full h-full" />
+            <img
+              src={originalUrl}
+              alt="Original"
+              className="absolute inset-0 w-full h-full"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+            <span className="absolute top-2 left-2 text-xs font-semibold bg-black/60 text-gray-200 px-2 py-0.5 rounded pointer-events-none">Before</span>
+            <span className="absolute top-2 right-2 text-xs font-semibold bg-black/60 text-gray-200 px-2 py-0.5 rounded pointer-events-none">After</span>
+            {loupeStyle && (
+              <div
+                className="absolute rounded-full border-2 border-white shadow-2xl bg-no-repeat bg-black pointer-events-none"
+                style={loupeStyle}
+              >
+                <span className="absolute bottom-3 left-1/2 -translate-x-1/2 text-[10px] font-semibold bg-black/70 text-gray-200 px-1.5 rounded">
+                  {showsOriginal ? 'Before' : 'After'}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-3 text-sm text-gray-300 flex-grow max-w-md">
+          Before
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            className="flex-grow"
+            aria-label="Comparison split"
+          />
+          After
+        </label>
+        <div className="flex items-center gap-3">
+          <button onClick={onDiscard} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-3 rounded-md">
+            Discard
+          </button>
+          <button onClick={onDownload} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-3 rounded-md">
+            Download
+          </button>
+          <button
+            onClick={onAddToHistory}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95"
+          >
+            Add to History
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default UpscaleReview;
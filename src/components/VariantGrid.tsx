@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { HistoryEntry, VariantSet } from '../types';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useStepImage } from '../hooks/useStepImage';
+import { operationLabels } from './HistoryTimeline';
+
+interface VariantGridProps {
+  /** All variant sets generated this session, oldest first. */
+  variantSets: VariantSet[];
+  activeSetId: string;
+  onSelectSet: (setId: string) => void;
+  /** The step each set was generated from, looked up by history entry id. */
+  getSourceEntry: (entryId: string) => HistoryEntry | null;
+  onChoose: (setId: string, index: number) => void;
+  onClose: () => void;
+  isLoading: boolean;
+}
+
+const VariantImage: React.FC<{ file: File | null; alt: string; className: string }> = ({ file, alt, className }) => {
+  const url = useObjectUrl(file);
+  return url ? <img src={url} alt={alt} className={className} /> : <div className={className} />;
+};
+
+const SourceImage: React.FC<{ entry: HistoryEntry | null; className: string }> = ({ entry, className }) =>
+  <VariantImage file={useStepImage(entry)} alt="Current" className={className} />;
+
+/**
+ * Full-screen picker for a set of variations, comparing the selected one with
+ * the image it was generated from. Render with `key={activeSetId}` so the
+ * selection resets when switching sets.
+ */
+const VariantGrid: React.FC<VariantGridProps> = ({ variantSets, activeSetId, onSelectSet, getSourceEntry, onChoose, onClose, isLoading }) => {
+  const setIndex = variantSets.findIndex(set => set.id === activeSetId);
+  const variantSet = variantSets[setIndex];
+
+  // Start each set with its first unused variant selected.
+  const [selectedIndex, setSelectedIndex] = useState(() => Math.max(variantSet?.entryIds.indexOf(null) ?? 0, 0));
+
+  if (!variantSet) return null;
+
+  const isUsed = variantSet.entryIds[selectedIndex] !== null;
+
+  // Portalled so the overlay is not clipped by the editor's backdrop-filter container.
+  return createPortal(
+    <div className="fixed inset-0 bg-black/80 z-50 flex flex-col p-6 gap-4 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-xl font-bold text-gray-100">
+            {variantSet.files.length} variations · {operationLabels[variantSet.details.operation]}
+          </h3>
+          {variantSet.details.prompt && <p className="text-sm text-gray-400 truncate">"{variantSet.details.prompt}"</p>}
+        </div>
+        <div className="flex items-center gap-3">
+          {variantSets.length > 1 && (
+            <>
+              <button
+                onClick={() => onSelectSet(variantSets[setIndex - 1].id)}
+                disabled={setIndex === 0}
+                className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Earlier
+              </button>
+              <span className="text-sm text-gray-400">Set {setIndex + 1} of {variantSets.length}</span>
+              <button
+                onClick={() => onSelectSet(variantSets[setIndex + 1].id)}
+                disabled={setIndex === variantSets.length - 1}
+                className="text-sm font-semibold text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Later
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="text-sm font-semibold text-white bg-white/10 hover:bg-white/20 px-4 py-2 rounded-md">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2 min-h-0">
+          <p className="text-sm font-semibold text-gray-300">Current</p>
+          <SourceImage entry={getSourceEntry(variantSet.sourceId)} className="flex-1 min-h-0 w-full object-contain rounded-md bg-black/40" />
+        </div>
+        <div className="flex flex-col gap-2 min-h-0">
+          <p className="text-sm font-semibold text-gray-300">Variation {selectedIndex + 1}</p>
+          <VariantImage file={variantSet.files[selectedIndex]} alt={`Variation ${selectedIndex + 1}`} className="flex-1 min-h-0 w-full object-contain rounded-md bg-black/40" />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex gap-3 overflow-x-auto pb-1">
+          {variantSet.files.map((file, index) => (
+            <button
+              key={index}
+              onClick={() => setSelectedIndex(index)}
+              className={`relative flex-shrink-0 w-24 h-24 rounded-md overflow-hidden border-2 transition-all duration-200 ${
+                index === selectedIndex ? 'border-blue-400 ring-2 ring-blue-400/40' : 'border-white/10 hover:border-white/40'
+              }`}
+              aria-label={`Show variation ${index + 1}`}
+            >
+              <VariantImage file={file} alt="" className="w-full h-full object-cover" />
+              <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[10px] font-semibold text-gray-200 px-1 py-0.5 truncate">
+                {index + 1}{variantSet.entryIds[index] !== null ? ' · in history' : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onChoose(variantSet.id, selectedIndex)}
+          disabled={isLoading || isUsed}
+          className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {isUsed ? 'Already in history' : `Use variation ${selectedIndex + 1}`}
+        </button>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default VariantGrid;
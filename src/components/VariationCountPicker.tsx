@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariationCountPickerProps {
+  value: number;
+  onChange: (count: number) => void;
+  isLoading: boolean;
+}
+
+export const MAX_VARIATIONS = 4;
+
+const VariationCountPicker: React.FC<VariationCountPickerProps> = ({ value, onChange, isLoading }) => {
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <span className="text-sm font-medium text-gray-400">Variations:</span>
+      {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+        <button
+          key={count}
+          onClick={() => onChange(count)}
+          disabled={isLoading}
+          className={`w-9 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+            value === count
+            ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+            : 'bg-white/10 hover:bg-white/20 text-gray-200'
+          }`}
+          aria-pressed={value === count}
+        >
+          {count}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default VariationCountPicker;
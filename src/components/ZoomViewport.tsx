@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface ZoomViewportProps {
+  /** Natural size of the displayed image. Zooming is disabled until it is known. */
+  contentSize: { width: number; height: number } | null;
+  /** Image shown in the minimap while zoomed in. */
+  minimapUrl: string | null;
+  /** Content laid out at the fitted size. Overlays can read the zoom from the `--zoom` CSS variable. */
+  children: React.ReactNode;
+}
+
+interface View {
+  /** Scale relative to the fitted size; 1 shows the whole image. */
+  zoom: number;
+  /** Offset of the scaled content from the top left of the viewport, in pixels. */
+  x: number;
+  y: number;
+}
+
+// Matches the height the editor has always given the image.
+const MAX_HEIGHT_RATIO = 0.6;
+// How far in the user can zoom, relative to 100%.
+const MAX_PIXEL_ZOOM = 8;
+const MINIMAP_WIDTH = 140;
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Shows the editor image at a size that fits the page and lets the user zoom
+ * with the wheel or a pinch, pan with the middle button, Space + drag or two
+ * fingers, and jump to fit, 100% or 200%. Children are transformed as a
+ * whole, so anything that maps pointers with `getBoundingClientRect` or
+ * positions itself in percentages stays aligned at every zoom level.
+ */
+const ZoomViewport: React.FC<ZoomViewportProps> = ({ contentSize, minimapUrl, children }) => {
+  const [availableWidth, setAvailableWidth] = useState(0);
+  const [maxHeight, setMaxHeight] = useState(() => window.innerHeight * MAX_HEIGHT_RATIO);
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const outerRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ pointerId: number; startX: number; startY: number; view: View } | null>(null);
+  const touchesRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; midX: number; midY: number; view: View } | null>(null);
+  const suppressClickRef = useRef(false);
+  const isHoveredRef = useRef(false);
+
+  useEffect(() => {
+    const outer = outerRef.current;
+    if (!outer) return;
+    const observer = new ResizeObserver(() => setAvailableWidth(outer.clientWidth));
+    observer.observe(outer);
+    const handleResize = () => setMaxHeight(window.innerHeight * MAX_HEIGHT_RATIO);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
+
+  const fitScale = contentSize && availableWidth
+    ? Math.min(availableWidth / contentSize.width, maxHeight / contentSize.height)
+    : 0;
+  const width = contentSize ? Math.floor(contentSize.width * fitScale) : 0;
+  const height = contentSize ? Math.floor(contentSize.height * fitScale) : 0;
+  const canZoom = width > 0 && height > 0;
+  // The zoom at which one image pixel covers one screen pixel.
+  const pixelZoom = canZoom ? contentSize!.width / width : 1;
+  const minZoom = Math.min(1, pixelZoom);
+  const maxZoom = Math.max(1, pixelZoom * MAX_PIXEL_ZOOM);
+
+  // Keeps the content covering the viewport, or centred when it is smaller.
+  const clampView = useCallback((next: View): View => {
+    const zoom = Math.min(maxZoom, Math.max(minZoom, next.zoom));
+    const clampAxis = (offset: number, size: number) => {
+      const scaled = size * zoom;
+      return scaled <= size ? (size - scaled) / 2 : Math.min(0, Math.max(size - scaled, offset));
+    };
+    return { zoom, x: clampAxis(next.x, width), y: clampAxis(next.y, height) };
+  }, [width, height, minZoom, maxZoom]);
+
+  // Scales around a point in viewport coordinates, keeping that point still.
+  const zoomAround = useCallback((current: View, zoom: number, px: number, py: number): View => {
+    const clamped = Math.min(maxZoom, Math.max(minZoom, zoom));
+    const ratio = clamped / current.zoom;
+    return clampView({ zoom: clamped, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio });
+  }, [clampView, minZoom, maxZoom]);
+
+  // A new image size starts from the fitted view; edits that keep the size keep the zoom.
+  useEffect(() => {
+    setView(FIT_VIEW);
+  }, [contentSize?.width, contentSize?.height]);
+
+  useEffect(() => {
+    setView(current => clampView(current));
+  }, [clampView]);
+
+  // React's wheel listener is passive, so page scrolling could not be prevented with it.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !canZoom) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 40 : e.deltaY;
+      // Trackpad pinches arrive as wheel events with ctrlKey set and small deltas.
+      const factor = Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.0015));
+      setView(current => zoomAround(current, current.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [canZoom, zoomAround]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Space only pans over the image, so it still scrolls the page and presses buttons elsewhere.
+      if (e.code === 'Space' && isHoveredRef.current && !isTyping(e.target)) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  // Pan and pinch gestures are handled in the capture phase so the tools underneath never see them.
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canZoom) return;
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchesRef.current.size === 2) {
+        const [a, b] = [...touchesRef.current.values()];
+        const rect = e.currentTarget.getBoundingClientRect();
+        pinchRef.current = {
+          distance: Math.hypot(a.x - b.x, a.y - b.y),
+          midX: (a.x + b.x) / 2 - rect.left,
+          midY: (a.y + b.y) / 2 - rect.top,
+          view,
+        };
+        e.stopPropagation();
+      }
+      return;
+    }
+    if (e.button === 1 || (e.button === 0 && isSpaceHeld)) {
+      e.preventDefault();
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      panRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, view };
+      setIsPanning(true);
+    }
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (pan && pan.pointerId === e.pointerId) {
+      e.stopPropagation();
+      setView(clampView({ ...pan.view, x: pan.view.x + e.clientX - pan.startX, y: pan.view.y + e.clientY - pan.startY }));
+      return;
+    }
+    if (e.pointerType !== 'touch' || !touchesRef.current.has(e.pointerId)) return;
+    touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pinch = pinchRef.current;
+    if (pinch && touchesRef.current.size === 2) {
+      e.stopPropagation();
+      const [a, b] = [...touchesRef.current.values()];
+      const rect = e.currentTarget.getBoundingClientRect();
+      const midX = (a.x + b.x) / 2 - rect.left;
+      const midY = (a.y + b.y) / 2 - rect.top;
+      const zoomed = zoomAround(pinch.view, pinch.view.zoom * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance, pinch.midX, pinch.midY);
+      setView(clampView({ ...zoomed, x: zoomed.x + midX - pinch.midX, y: zoomed.y + midY - pinch.midY }));
+    }
+  };
+
+  const handlePointerUpCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId === e.pointerId) {
+      e.stopPropagation();
+      suppressClickRef.current = true;
+      panRef.current = null;
+      setIsPanning(false);
+    }
+    if (touchesRef.current.delete(e.pointerId) && pinchRef.current) {
+      e.stopPropagation();
+      if (touchesRef.current.size < 2) pinchRef.current = null;
+    }
+  };
+
+  // A pan ends with a click on whatever is underneath, which must not place a hotspot.
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.stopPropagation();
+    }
+  };
+
+  const zoomToPreset = (zoom: number) => {
+    if (zoom === 1) {
+      setView(clampView(FIT_VIEW));
+      return;
+    }
+    setView(current => zoomAround(current, zoom, width / 2, height / 2));
+  };
+
+  const moveToMinimapPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = (e.clientY - rect.top) / rect.height;
+    setView(current => clampView({ ...current, x: width / 2 - fx * width * current.zoom, y: height / 2 - fy * height * current.zoom }));
+  };
+
+  const presets: { label: string; zoom: number }[] = [
+    { label: 'Fit', zoom: 1 },
+    { label: '100%', zoom: pixelZoom },
+    { label: '200%', zoom: pixelZoom * 2 },
+  ];
+  const isZoomedIn = view.zoom > 1.001;
+
+  return (
+    <div ref={outerRef} className="w-full flex justify-center">
+      <div
+        ref={viewportRef}
+        className={`relative overflow-hidden touch-none ${isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : ''}`}
+        style={canZoom ? { width, height } : { width: '100%' }}
+        onPointerDownCapture={handlePointerDownCapture}
+        onPointerMoveCapture={handlePointerMoveCapture}
+        onPointerUpCapture={handlePointerUpCapture}
+        onPointerCancelCapture={handlePointerUpCapture}
+        onClickCapture={handleClickCapture}
+        onPointerEnter={() => { isHoveredRef.current = true; }}
+        onPointerLeave={() => { isHoveredRef.current = false; }}
+        onAuxClick={(e) => e.button === 1 && e.preventDefault()}
+      >
+        <div
+          className="relative origin-top-left"
+          style={{
+            width: canZoom ? width : '100%',
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            ['--zoom' as string]: view.zoom,
+          }}
+        >
+          {children}
+        </div>
+
+        {canZoom && (
+          <div className="absolute top-2 right-2 z-20 flex items-center gap-1 bg-black/60 backdrop-blur-sm rounded-md p-1 text-xs font-semibold">
+            {presets.map(({ label, zoom }) => (
+              <button
+                key={label}
+                onClick={() => zoomToPreset(zoom)}
+                className={`px-2 py-1 rounded transition-colors ${Math.abs(view.zoom - zoom) < 0.001 ? 'bg-white/20 text-white' : 'text-gray-300 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+            <span className="px-2 text-gray-400 tabular-nums">{Math.round(view.zoom / pixelZoom * 100)}%</span>
+          </div>
+        )}
+
+        {isZoomedIn && minimapUrl && (
+          <div
+            className="absolute bottom-2 right-2 z-20 border border-white/40 rounded shadow-lg bg-black/60 cursor-pointer touch-none"
+            style={{ width: MINIMAP_WIDTH, height: MINIMAP_WIDTH * height / width }}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              e.currentTarget.setPointerCapture(e.pointerId);
+              moveToMinimapPoint(e);
+            }}
+            onPointerMove={(e) => e.currentTarget.hasPointerCapture(e.pointerId) && moveToMinimapPoint(e)}
+          >
+            <img src={minimapUrl} alt="" className="w-full h-full pointer-events-none" />
+            <div
+              className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+              style={{
+                left: `${-view.x / (width * view.zoom) * 100}%`,
+                top: `${-view.y / (height * view.zoom) * 100}%`,
+                width: `${100 / view.zoom}%`,
+                height: `${100 / view.zoom}%`,
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ZoomViewport;
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import type { HistoryEntry, LayerStack } from '../types';
+import { getStepImage } from '../utils/layers';
+
+/**
+ * Returns the image a history step shows. Steps whose layers were edited
+ * are flattened first, so this is null until that has finished.
+ */
+export const useStepImage = (entry: HistoryEntry | null | undefined): File | null => {
+    const [flattened, setFlattened] = useState<{ stack: LayerStack; file: File } | null>(null);
+    const stack = entry?.layers;
+
+    useEffect(() => {
+        if (!entry || !stack?.edited) return;
+        let cancelled = false;
+        getStepImage(entry)
+            .then(file => { if (!cancelled) setFlattened({ stack, file }); })
+            .catch(err => console.error('Failed to flatten the layers.', err));
+        return () => { cancelled = true; };
+    }, [entry, stack]);
+
+    if (!entry) return null;
+    if (!stack?.edited) return entry.file;
+    return flattened?.stack === stack ? flattened.file : null;
+};
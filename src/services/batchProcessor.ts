@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    compositeWithBackground,
+    generateAdjustedImage,
+    generateFilteredImage,
+    isAbortError,
+    upscaleImage,
+    type RequestOptions,
+    type Resolution,
+} from './geminiService';
+import { renderGradedImage, type ColorGrade } from '../utils/colorGrade';
+import { dataURLtoFile } from '../utils/image';
+
+/** A single operation in a batch pipeline. */
+export type BatchStep =
+    | { id: string; operation: 'filter'; prompt: string }
+    | { id: string; operation: 'adjust'; prompt: string }
+    | { id: string; operation: 'grade'; name: string; grade: ColorGrade }
+    | { id: string; operation: 'background'; background: File }
+    | { id: string; operation: 'upscale'; resolution: Resolution };
+
+export type BatchOperation = BatchStep['operation'];
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+    id: string;
+    source: File;
+    status: BatchItemStatus;
+    /** Index of the pipeline step being run, or the number of steps once done. */
+    stepIndex: number;
+    /** Attempts made at the current step, including retries. */
+    attempt: number;
+    /** Attempts allowed per step, as set by the retry policy. */
+    maxAttempts?: number;
+    result?: File;
+    error?: string;
+}
+
+export interface BatchOptions {
+    /** How many items run at the same time. */
+    concurrency: number;
+    onItemUpdate: (id: string, update: Partial<BatchItem>) => void;
+    /** Stops picking up new items once aborted and cancels the requests of items already running. */
+    signal?: AbortSignal;
+}
+
+const baseName = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'image';
+
+/**
+ * Runs one pipeline step on an image.
+ * @param options Cancels the step's requests or reports retries.
+ * @returns A promise that resolves to the resulting image file.
+ */
+export const runBatchStep = async (image: File, step: BatchStep, options: RequestOptions = {}): Promise<File> => {
+    let resultUrl: string;
+    switch (step.operation) {
+        case 'filter':
+            resultUrl = await generateFilteredImage(image, step.prompt, options);
+            break;
+        case 'adjust':
+            resultUrl = await generateAdjustedImage(image, step.prompt, options);
+            break;
+        case 'grade': {
+            // Grades run locally and need no round trip through a data URL.
+            const graded = await renderGradedImage(image, step.grade);
+            return new File([graded], `${baseName(image)}.png`, { type: graded.type });
+        }
+        case 'background':
+            resultUrl = await compositeWithBackground(image, step.background, options);
+            break;
+        case 'upscale': {
+            const upscaled = await upscaleImage(image, step.resolution, options);
+            return new File([upscaled], `${baseName(image)}.png`, { type: upscaled.type });
+        }
+    }
+    return dataURLtoFile(resultUrl, `${baseName(image)}.png`);
+};
+
+// Transient failures are already retried by every service call, so a step that throws has failed for good.
+const processItem = async (item: BatchItem, steps: BatchStep[], options: BatchOptions): Promise<void> => {
+    const { onItemUpdate, signal } = options;
+    let image = item.source;
+
+    for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+        if (signal?.aborted) {
+            onItemUpdate(item.id, { status: 'cancelled' });
+            return;
+        }
+        onItemUpdate(item.id, { status: 'running', stepIndex, attempt: 1, error: undefined });
+        try {
+            image = await runBatchStep(image, steps[stepIndex], {
+                signal,
+                onRetry: ({ attempt, maxAttempts }) => onItemUpdate(item.id, { attempt: attempt + 1, maxAttempts }),
+            });
+        } catch (err) {
+            if (isAbortError(err)) {
+                onItemUpdate(item.id, { status: 'cancelled' });
+                return;
+            }
+            const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+            console.error(`Batch step ${stepIndex + 1} failed for ${item.source.name}.`, err);
+            onItemUpdate(item.id, { status: 'failed', error: message });
+            return;
+        }
+    }
+
+    onItemUpdate(item.id, {
+        status: 'done',
+        stepIndex: steps.length,
+        result: new File([image], `${baseName(item.source)}-edited.png`, { type: image.type }),
+    });
+};
+
+/**
+ * Runs every item through the pipeline, at most `concurrency` items at a time.
+ * Progress is reported per item through `onItemUpdate`; the returned promise
+ * resolves once every item has finished, failed or been cancelled.
+ */
+export const runBatch = async (items: BatchItem[], steps: BatchStep[], options: BatchOptions): Promise<void> => {
+    const queue = [...items];
+    const worker = async () => {
+        for (let item = queue.shift(); item; item = queue.shift()) {
+            await processItem(item, steps, options);
+        }
+    };
+    const workerCount = Math.max(1, Math.min(options.concurrency, queue.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+};
+
+/**
+ * Gives each result a unique file name so none are overwritten in the archive.
+ */
+export const getResultFileNames = (items: BatchItem[]): Map<string, string> => {
+    const used = new Set<string>();
+    const names = new Map<string, string>();
+    items.forEach(item => {
+        if (!item.result) return;
+        const [, stem, extension] = item.result.name.match(/^(.*?)(\.[^.]*)?$/) ?? [];
+        let name = item.result.name;
+        for (let n = 2; used.has(name); n++) {
+            name = `${stem}-${n}${extension ?? ''}`;
+        }
+        used.add(name);
+        names.set(item.id, name);
+    });
+    return names;
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ServiceErrorKind =
+    | 'safety-blocked'
+    | 'no-image'
+    | 'rate-limited'
+    | 'invalid-api-key'
+    | 'network-offline'
+    | 'parse-failure';
+
+/**
+ * A failure the app can explain and offer a way out of. Anything else that a
+ * service throws is shown as a generic error.
+ */
+export abstract class ServiceError extends Error {
+    abstract readonly kind: ServiceErrorKind;
+}
+
+/** The model refused the request or its output because of its safety rules. */
+export class SafetyBlockedError extends ServiceError {
+    readonly kind = 'safety-blocked';
+
+    /** The block or finish reason the model gave, e.g. 'SAFETY' or 'PROHIBITED_CONTENT'. */
+    constructor(readonly reason: string, message: string) {
+        super(message);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+/** The model answered without an image, usually with text explaining why. */
+export class NoImageReturnedError extends ServiceError {
+    readonly kind = 'no-image';
+
+    constructor(message: string, readonly modelText?: string) {
+        super(message);
+        this.name = 'NoImageReturnedError';
+    }
+}
+
+/** Too many requests, or the API key's quota is used up. */
+export class RateLimitedError extends ServiceError {
+    readonly kind = 'rate-limited';
+
+    /** How long the server asked to wait before trying again, if it said. */
+    constructor(message: string, readonly retryAfterMs: number | null = null) {
+        super(message);
+        this.name = 'RateLimitedError';
+    }
+}
+
+export class InvalidApiKeyError extends ServiceError {
+    readonly kind = 'invalid-api-key';
+
+    constructor(message = 'The API key was rejected. Check GEMINI_API_KEY in .env.local.') {
+        super(message);
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+export class NetworkOfflineError extends ServiceError {
+    readonly kind = 'network-offline';
+
+    constructor(message = 'Could not reach the server. Check your internet connection.') {
+        super(message);
+        this.name = 'NetworkOfflineError';
+    }
+}
+
+/** The model answered, but not in the format that was asked for. */
+export class ParseFailureError extends ServiceError {
+    readonly kind = 'parse-failure';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'ParseFailureError';
+    }
+}
+
+export const isServiceError = (err: unknown): err is ServiceError => err instanceof ServiceError;
+
+// Rate-limit responses from the Gemini API say how long to wait, e.g. "retryDelay":"23s".
+const getRetryAfter = (message: string): number | null => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : null;
+};
+
+/**
+ * Turns transport failures (HTTP status codes, dropped connections) into
+ * typed errors. Anything it does not recognise is returned unchanged.
+ */
+export const toServiceError = (err: unknown): unknown => {
+    if (!(err instanceof Error) || err instanceof ServiceError) return err;
+    const status = (err as { status?: unknown }).status;
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(err.message)) {
+        return new RateLimitedError('The model is receiving too many requests, or the API quota is used up.', getRetryAfter(err.message));
+    }
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid/i.test(err.message)) {
+        return new InvalidApiKeyError();
+    }
+    // Browsers report dropped connections as a TypeError from fetch.
+    if ((err instanceof TypeError && /fetch|network/i.test(err.message)) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+        return new NetworkOfflineError();
+    }
+    return err;
+};
@@ -3,76 +3,65 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { getImageProvider } from './providers';
+import { resolutionConfig, type DetectedObject, type ImageOperation, type Resolution } from './imageProvider';
+import { withRetry, type RequestOptions } from './requestPolicy';
+import { createCacheKey, getCachedResult, putCachedResult } from './resultCache';
+import { loadImage } from '../utils/image';
+import { getUpscaledSize, upscaleInTiles, upscaleTileLocally, type TileProgress, type TileUpscaler } from '../utils/tiledUpscale';
+
+export type { BoundingBox, DetectedObject, Resolution, ImageOperation, ModelConfig, ImageEditProvider } from './imageProvider';
+export { setModelConfig, getModelConfig, DEFAULT_MODELS } from './imageProvider';
+export { getImageProvider, setImageProvider, type ProviderName } from './providers';
+export { isAbortError, setRetryPolicy, getRetryPolicy, DEFAULT_RETRY_POLICY, type RequestOptions, type RetryInfo, type RetryPolicy, type RetryReason } from './requestPolicy';
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+/**
+ * Returns the model that currently serves an operation, e.g. for recording in history.
+ */
+export const getModelLabel = (operation: ImageOperation): string => {
+    return getImageProvider().describeModel(operation);
 };
 
-export interface BoundingBox {
-    x1: number;
-    y1: number;
-    x2: number;
-    y2: number;
-}
-
-export interface DetectedObject {
-    label: string;
-    box: BoundingBox;
-}
-
-const handleApiResponse = (
-    response: GenerateContentResponse,
-    context: string // e.g., "edit", "filter", "adjustment"
-): string => {
-    // 1. Check for prompt blocking first
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-
-    // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
-        return `data:${mimeType};base64,${data}`;
+/**
+ * Runs a model request with retries, reusing the result of an identical
+ * earlier request when there is one. Requests are identical when they have
+ * the same input image bytes, operation, parameters (such as the prompt),
+ * model and variant. The cache is best-effort: if it cannot be read or
+ * written, the request simply goes to the model.
+ */
+const cachedRequest = async <T>(
+    operation: ImageOperation,
+    inputs: Blob[],
+    params: Record<string, unknown>,
+    request: (signal: AbortSignal) => Promise<T>,
+    options: RequestOptions,
+): Promise<T> => {
+    const provider = getImageProvider();
+    let key: string;
+    try {
+        key = await createCacheKey(inputs, {
+            operation,
+            model: `${provider.name}:${provider.describeModel(operation)}`,
+            variant: options.variant ?? 0,
+            params,
+        });
+    } catch (err) {
+        console.warn('Could not create a cache key; the request will not be cached.', err);
+        return withRetry(request, options);
     }
 
-    // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+    if (!options.regenerate) {
+        try {
+            const cached = await getCachedResult<T>(key);
+            if (cached !== undefined) return cached;
+        } catch (err) {
+            console.warn('Could not read from the result cache.', err);
+        }
     }
-    
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
 
-    console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+    const result = await withRetry(request, options);
+    putCachedResult(key, operation, result).catch(err => console.warn('Could not write to the result cache.', err));
+    return result;
 };
 
 /**
@@ -80,44 +69,34 @@ const handleApiResponse = (
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
  * @param hotspot The {x, y} coordinates on the image to focus the edit.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
+    hotspot: { x: number, y: number },
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log('Starting generative edit at:', hotspot);
-    // FIX: Use process.env.API_KEY to get the API key as per the guidelines.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
-User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
-
-Editing Guidelines:
-- The edit must be realistic and blend seamlessly with the surrounding area.
-- The rest of the image (outside the immediate edit area) must remain identical to the original.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    console.log('Received response from model.', response);
+    return cachedRequest('edit', [originalImage], { prompt: userPrompt, hotspot }, signal => getImageProvider().edit(originalImage, userPrompt, hotspot, signal), options);
+};
 
-    return handleApiResponse(response, 'edit');
+/**
+ * Generates an edited image using generative AI, restricted to a painted mask.
+ * The result is not composited; callers should blend it back with the mask.
+ * @param originalImage The original image file.
+ * @param userPrompt The text prompt describing the desired edit.
+ * @param mask A grayscale mask of the same size where white marks the area to edit.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
+ * @returns A promise that resolves to the data URL of the edited image.
+ */
+export const generateMaskedEdit = async (
+    originalImage: File,
+    userPrompt: string,
+    mask: File,
+    options: RequestOptions = {},
+): Promise<string> => {
+    return cachedRequest('maskEdit', [originalImage, mask], { prompt: userPrompt }, signal => getImageProvider().maskEdit(originalImage, userPrompt, mask, signal), options);
 };
 
 /**
@@ -125,279 +104,142 @@ Output: Return ONLY the final edited image. Do not return text.`;
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
  * @param object The detected object with its bounding box.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateObjectEdit = async (
     originalImage: File,
     userPrompt: string,
-    object: DetectedObject
+    object: DetectedObject,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log(`Starting object edit for '${object.label}' at:`, object.box);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request, constrained to a specific object.
-Object to Edit: The object labeled '${object.label}' located within the bounding box (x1: ${object.box.x1}, y1: ${object.box.y1}, x2: ${object.box.x2}, y2: ${object.box.y2}).
-User Request: "${userPrompt}"
-
-Editing Guidelines:
-- The edit must be realistic and blend seamlessly with the surrounding area.
-- The edit MUST be contained entirely within the provided bounding box.
-- The rest of the image (outside the bounding box) must remain identical to the original.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and object edit prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    console.log('Received response from model for object edit.', response);
-
-    return handleApiResponse(response, 'object edit');
+    // Only the label and box shape the request; callers may attach their own fields, such as a UI id.
+    const { label, box } = object;
+    return cachedRequest('objectEdit', [originalImage], { prompt: userPrompt, label, box }, signal => getImageProvider().objectEdit(originalImage, userPrompt, { label, box }, signal), options);
 };
 
 /**
  * Generates an image with a filter applied using generative AI.
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log(`Starting filter generation: ${filterPrompt}`);
-    // FIX: Use process.env.API_KEY to get the API key as per the guidelines.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
-Filter Request: "${filterPrompt}"
-
-Safety & Ethics Policy:
-- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
-- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
-
-Output: Return ONLY the final filtered image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and filter prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    console.log('Received response from model for filter.', response);
-    
-    return handleApiResponse(response, 'filter');
+    return cachedRequest('filter', [originalImage], { prompt: filterPrompt }, signal => getImageProvider().filter(originalImage, filterPrompt, signal), options);
 };
 
 /**
  * Generates an image with a global adjustment applied using generative AI.
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
-    // FIX: Use process.env.API_KEY to get the API key as per the guidelines.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
-User Request: "${adjustmentPrompt}"
-
-Editing Guidelines:
-- The adjustment must be applied across the entire image.
-- The result must be photorealistic.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final adjusted image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and adjustment prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    console.log('Received response from model for adjustment.', response);
-    
-    return handleApiResponse(response, 'adjustment');
+    return cachedRequest('adjust', [originalImage], { prompt: adjustmentPrompt }, signal => getImageProvider().adjust(originalImage, adjustmentPrompt, signal), options);
 };
 
 /**
  * Composites a foreground image onto a background image.
  * @param foregroundImage The image containing the subject.
  * @param backgroundImage The new background image.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to the data URL of the composited image.
  */
 export const compositeWithBackground = async (
     foregroundImage: File,
     backgroundImage: File,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log(`Starting background composition...`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const foregroundImagePart = await fileToPart(foregroundImage);
-    const backgroundImagePart = await fileToPart(backgroundImage);
-    
-    const prompt = `You are an expert photo editor AI. The user has provided two images. The first image contains a subject, and the second image is a new background.
-Your task is to:
-1.  Identify and isolate the main subject from the first image. The subject is likely the most prominent person, animal, or object.
-2.  Realistically composite this isolated subject onto the second image (the background).
-3.  Pay close attention to matching lighting, shadows, color temperature, and perspective to create a seamless and believable final image. The subject should look like it naturally belongs in the new environment.
-4.  If the foreground image contains a person, their identity and features must be preserved exactly.
+    return cachedRequest('composite', [foregroundImage, backgroundImage], {}, signal => getImageProvider().composite(foregroundImage, backgroundImage, signal), options);
+};
 
-Output: Return ONLY the final composited image. Do not return text.`;
-    const textPart = { text: prompt };
+/**
+ * Replaces the background of an image with one generated from a text description.
+ * @param originalImage The image containing the subject to keep.
+ * @param backgroundPrompt The text prompt describing the new background.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
+ * @returns A promise that resolves to the data URL of the image with its new background.
+ */
+export const generateBackgroundReplacement = async (
+    originalImage: File,
+    backgroundPrompt: string,
+    options: RequestOptions = {},
+): Promise<string> => {
+    return cachedRequest('replaceBackground', [originalImage], { prompt: backgroundPrompt }, signal => getImageProvider().replaceBackground(originalImage, backgroundPrompt, signal), options);
+};
 
-    console.log('Sending images and composition prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [foregroundImagePart, backgroundImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    console.log('Received response from model for composition.', response);
-    
-    return handleApiResponse(response, 'composition');
+/**
+ * Separates the main subject of an image from its background.
+ * @param originalImage The image to segment.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
+ * @returns A promise that resolves to the data URL of a mask where white marks the subject.
+ */
+export const generateSubjectMask = async (
+    originalImage: File,
+    options: RequestOptions = {},
+): Promise<string> => {
+    return cachedRequest('segment', [originalImage], {}, signal => getImageProvider().segment(originalImage, signal), options);
 };
 
 /**
  * Detects objects in an image and returns their labels and bounding boxes.
  * @param image The image file to analyze.
+ * @param options Cancels the request, reports retries or bypasses the result cache.
  * @returns A promise that resolves to an array of detected objects.
  */
 export const detectObjects = async (
-    image: File
+    image: File,
+    options: RequestOptions = {},
 ): Promise<DetectedObject[]> => {
-    console.log('Starting object detection...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const imagePart = await fileToPart(image);
-    const prompt = `Analyze this image and identify the main objects within it. For each distinct object you find, provide a concise label and its bounding box coordinates. The coordinates should be in pixels, with (0,0) being the top-left corner. Return the output as a JSON array.`;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        label: {
-                            type: Type.STRING,
-                            description: 'A short, descriptive label for the detected object (e.g., "cat", "red car", "tree").',
-                        },
-                        box: {
-                            type: Type.OBJECT,
-                            properties: {
-                                x1: { type: Type.NUMBER, description: 'The x-coordinate of the top-left corner of the bounding box.' },
-                                y1: { type: Type.NUMBER, description: 'The y-coordinate of the top-left corner of the bounding box.' },
-                                x2: { type: Type.NUMBER, description: 'The x-coordinate of the bottom-right corner of the bounding box.' },
-                                y2: { type: Type.NUMBER, description: 'The y-coordinate of the bottom-right corner of the bounding box.' },
-                            },
-                            required: ['x1', 'y1', 'x2', 'y2'],
-                        },
-                    },
-                    required: ['label', 'box'],
-                },
-            },
-        },
-    });
-    console.log('Received object detection response from model.', response);
-
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-    
-    try {
-        const jsonText = response.text.trim();
-        if (!jsonText) {
-            console.warn('Object detection returned empty text response.');
-            return [];
-        }
-        const detectedObjects: DetectedObject[] = JSON.parse(jsonText);
-        // Validate the structure
-        if (!Array.isArray(detectedObjects)) {
-            throw new Error('Parsed JSON is not an array.');
-        }
-        return detectedObjects;
-    } catch (e) {
-        console.error('Failed to parse JSON response for object detection:', e, 'Raw Text:', response.text);
-        throw new Error('The AI model returned an invalid format for object detection. Please try again.');
-    }
+    return cachedRequest('detect', [image], {}, signal => getImageProvider().detect(image, signal), options);
 };
 
-export type Resolution = 'HD' | 'FHD' | '4K' | '8K';
+/** How tiles are enlarged: by the image model, or in the browser without a network call. */
+export type UpscaleMethod = 'model' | 'local';
 
-const resolutionConfig = {
-    'HD': { name: 'HD resolution (1280 x 720 pixels)', pixels: 1280 },
-    'FHD': { name: 'Full HD resolution (1920 x 1080 pixels)', pixels: 1920 },
-    '4K': { name: '4K UHD resolution (3840 x 2160 pixels)', pixels: 3840 },
-    '8K': { name: '8K UHD resolution (7680 x 4320 pixels)', pixels: 7680 },
-};
+// Image models return roughly 1024px images, so each tile asks for about that much.
+const MODEL_TILE_SIZE = 1024;
+const MODEL_TILE_OVERLAP = 64;
+const LOCAL_TILE_SIZE = 2048;
+const LOCAL_TILE_OVERLAP = 32;
 
 /**
- * Upscales an image to a specified resolution using generative AI.
+ * Upscales an image so its longest side matches a resolution preset. The
+ * image is split into overlapping tiles that are enlarged one at a time, so
+ * the output size does not depend on what the model can return in one call.
  * @param originalImage The original image file.
  * @param resolution The target resolution ('HD', 'FHD', '4K', '8K').
- * @returns A promise that resolves to the data URL of the upscaled image.
+ * @param options.method Whether tiles are enlarged by the model (default) or locally.
+ * @param options.onProgress Called after each tile.
+ * @param options.signal Stops before the next tile and cancels the one in progress.
+ * @param options.regenerate Asks the model again for every tile instead of reusing cached tiles.
+ * @returns A promise that resolves to the upscaled image as a PNG file.
  */
 export const upscaleImage = async (
     originalImage: File,
     resolution: Resolution,
-): Promise<string> => {
-    const config = resolutionConfig[resolution];
-    console.log(`Starting upscale to ${resolution} (${config.pixels}px)...`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are a world-class photo editing AI specializing in image upscaling. Your task is to upscale the provided image to ${config.name}. The final image's longest side should be exactly ${config.pixels} pixels.
-
-Upscaling Guidelines:
-- Enhance fine details, sharpness, and clarity to a photorealistic level suitable for high-resolution displays.
-- Maintain the original image's content, composition, and color grading perfectly. Do not add, remove, or alter any elements.
-- The final output must be free of digital artifacts, noise, or unnatural textures.
-
-Output: Return ONLY the final, high-resolution upscaled image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log(`Sending image and upscale prompt for ${resolution} to the model...`);
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    options: { method?: UpscaleMethod; onProgress?: (progress: TileProgress) => void } & RequestOptions = {},
+): Promise<File> => {
+    const { method = 'model', onProgress, signal } = options;
+    const img = await loadImage(originalImage);
+    const { width, height } = getUpscaledSize(img.naturalWidth, img.naturalHeight, resolutionConfig[resolution].pixels);
+    const upscaleTile: TileUpscaler = method === 'model'
+        ? (tile, tileWidth, tileHeight) => cachedRequest('upscale', [tile], { width: tileWidth, height: tileHeight }, tileSignal => getImageProvider().upscale(tile, tileWidth, tileHeight, tileSignal), options)
+        : upscaleTileLocally;
+    return upscaleInTiles(originalImage, width, height, upscaleTile, {
+        tileSize: method === 'model' ? MODEL_TILE_SIZE : LOCAL_TILE_SIZE,
+        overlap: method === 'model' ? MODEL_TILE_OVERLAP : LOCAL_TILE_OVERLAP,
+        onProgress,
+        signal,
     });
-    console.log(`Received response from model for ${resolution} upscale.`, response);
-    
-    return handleApiResponse(response, `upscale to ${resolution}`);
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ColorGrade } from '../utils/colorGrade';
+
+/** A colour grade saved for reuse across images. */
+export interface GradePreset {
+    id: string;
+    name: string;
+    grade: ColorGrade;
+    createdAt: number;
+}
+
+const STORAGE_KEY = 'pixshop.gradePresets';
+
+/**
+ * Lists saved grade presets, oldest first.
+ */
+export const listGradePresets = (): GradePreset[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const presets: GradePreset[] = stored ? JSON.parse(stored) : [];
+        return presets.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (err) {
+        console.error('Failed to read saved grades.', err);
+        return [];
+    }
+};
+
+const writeGradePresets = (presets: GradePreset[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Saves a preset, replacing any saved preset with the same id.
+ * @throws If storage is full, which large LUTs can cause.
+ */
+export const saveGradePreset = (preset: GradePreset): void => {
+    writeGradePresets([...listGradePresets().filter(p => p.id !== preset.id), preset]);
+};
+
+export const deleteGradePreset = (id: string): void => {
+    writeGradePresets(listGradePresets().filter(p => p.id !== id));
+};
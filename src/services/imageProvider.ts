@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface BoundingBox {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface DetectedObject {
+    label: string;
+    box: BoundingBox;
+}
+
+export type Resolution = 'HD' | 'FHD' | '4K' | '8K';
+
+export const resolutionConfig: Record<Resolution, { name: string; pixels: number }> = {
+    'HD': { name: 'HD resolution (1280 x 720 pixels)', pixels: 1280 },
+    'FHD': { name: 'Full HD resolution (1920 x 1080 pixels)', pixels: 1920 },
+    '4K': { name: '4K UHD resolution (3840 x 2160 pixels)', pixels: 3840 },
+    '8K': { name: '8K UHD resolution (7680 x 4320 pixels)', pixels: 7680 },
+};
+
+/**
+ * The operations every image provider must implement. Also used as the key
+ * for per-operation model configuration.
+ */
+export type ImageOperation = 'edit' | 'maskEdit' | 'objectEdit' | 'filter' | 'adjust' | 'composite' | 'replaceBackground' | 'segment' | 'detect' | 'upscale';
+
+export type ModelConfig = Record<ImageOperation, string>;
+
+export const DEFAULT_MODELS: ModelConfig = {
+    edit: 'gemini-2.5-flash-image',
+    maskEdit: 'gemini-2.5-flash-image',
+    objectEdit: 'gemini-2.5-flash-image',
+    filter: 'gemini-2.5-flash-image',
+    adjust: 'gemini-2.5-flash-image',
+    composite: 'gemini-2.5-flash-image',
+    replaceBackground: 'gemini-2.5-flash-image',
+    segment: 'gemini-2.5-flash-image',
+    detect: 'gemini-2.5-flash',
+    upscale: 'gemini-2.5-flash-image',
+};
+
+let modelConfig: ModelConfig = { ...DEFAULT_MODELS };
+
+/**
+ * Overrides the model used for one or more operations.
+ * Operations that are not listed keep their current model.
+ */
+export const setModelConfig = (overrides: Partial<ModelConfig>): void => {
+    modelConfig = { ...modelConfig, ...overrides };
+};
+
+export const getModelConfig = (): ModelConfig => ({ ...modelConfig });
+
+export const getModelFor = (operation: ImageOperation): string => modelConfig[operation];
+
+/**
+ * A backend capable of performing every image operation Pixshop offers.
+ * All image-producing methods resolve to a data URL. Each method takes an
+ * optional signal and should stop, rejecting with its reason, once it aborts.
+ */
+export interface ImageEditProvider {
+    /** Short identifier shown in logs, e.g. 'gemini' or 'mock'. */
+    readonly name: string;
+    /** Identifies the model that serves an operation, for display and history records. */
+    describeModel(operation: ImageOperation): string;
+    edit(image: File, prompt: string, hotspot: { x: number, y: number }, signal?: AbortSignal): Promise<string>;
+    /** `mask` is a grayscale image of the same size where white marks the area to edit. */
+    maskEdit(image: File, prompt: string, mask: File, signal?: AbortSignal): Promise<string>;
+    objectEdit(image: File, prompt: string, object: DetectedObject, signal?: AbortSignal): Promise<string>;
+    filter(image: File, prompt: string, signal?: AbortSignal): Promise<string>;
+    adjust(image: File, prompt: string, signal?: AbortSignal): Promise<string>;
+    composite(foreground: File, background: File, signal?: AbortSignal): Promise<string>;
+    /** Keeps the main subject and replaces everything behind it with a background described by `prompt`. */
+    replaceBackground(image: File, prompt: string, signal?: AbortSignal): Promise<string>;
+    /** Returns a mask of the same size where white marks the main subject and black the background. */
+    segment(image: File, signal?: AbortSignal): Promise<string>;
+    detect(image: File, signal?: AbortSignal): Promise<DetectedObject[]>;
+    /**
+     * Enlarges an image, usually one tile of a larger one, to about `width` x `height`.
+     * Callers resize the result to the exact size.
+     */
+    upscale(image: File, width: number, height: number, signal?: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,438 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry, Layer, LayerStack, StepInputs } from '../types';
+import { createId } from '../utils/id';
+import { createThumbnail } from '../utils/image';
+import { getStepImage } from '../utils/layers';
+import { requestToPromise, transactionDone } from '../utils/indexedDb';
+import { clearCache, getCacheStats } from './resultCache';
+
+const DB_NAME = 'pixshop';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const ENTRIES_STORE = 'entries';
+const BLOBS_STORE = 'blobs';
+
+/** Start freeing storage once this share of the quota is used, which includes the result cache. */
+const QUOTA_THRESHOLD = 0.8;
+/** Upper bound on the number of projects kept, regardless of quota. */
+const MAX_PROJECTS = 30;
+
+export interface ProjectRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Ids of every entry in the history tree, oldest first. */
+    entryIds: string[];
+    /** The entry that was showing when last saved. */
+    currentId: string | null;
+    /** The leaf of the branch that was active when last saved. */
+    tipId: string | null;
+    /** Total size of all stored entry blobs in bytes. */
+    sizeBytes: number;
+    thumbnail?: Blob;
+}
+
+interface StoredLayer extends Omit<Layer, 'file' | 'mask'> {
+    fileKey: string;
+    maskKey: string | null;
+}
+
+/** A layer stack as persisted: images are referenced by key, as many steps share them. */
+interface StoredLayerStack {
+    baseKey: string;
+    layers: StoredLayer[];
+    edited?: boolean;
+}
+
+/** A history entry as persisted: the image is kept as a blob alongside its metadata. */
+export interface StoredHistoryEntry extends Omit<HistoryEntry, 'file' | 'layers' | 'inputs'> {
+    projectId: string;
+    blob: Blob;
+    fileName: string;
+    layers?: StoredLayerStack;
+    inputKeys?: Partial<Record<keyof StepInputs, string>>;
+}
+
+/** An image shared between the layer stacks of several entries, stored once. */
+interface StoredBlob {
+    key: string;
+    projectId: string;
+    blob: Blob;
+    fileName: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                    entries.createIndex('projectId', 'projectId');
+                }
+                if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+                    const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: 'key' });
+                    blobs.createIndex('projectId', 'projectId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const isQuotaError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// All writes go through this queue so that rapid edits are persisted in order.
+let writeQueue: Promise<unknown> = Promise.resolve();
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = writeQueue.then(task, task);
+    writeQueue = result.catch(() => undefined);
+    return result;
+};
+
+const getProject = async (db: IDBDatabase, id: string): Promise<ProjectRecord | undefined> => {
+    const tx = db.transaction(PROJECTS_STORE, 'readonly');
+    return requestToPromise<ProjectRecord | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+};
+
+const deleteProjectNow = async (db: IDBDatabase, id: string): Promise<void> => {
+    const tx = db.transaction([PROJECTS_STORE, ENTRIES_STORE, BLOBS_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const keys = await requestToPromise(entries.index('projectId').getAllKeys(id));
+    keys.forEach(key => entries.delete(key));
+    const blobs = tx.objectStore(BLOBS_STORE);
+    const blobKeys = await requestToPromise(blobs.index('projectId').getAllKeys(id));
+    blobKeys.forEach(key => blobs.delete(key));
+    await transactionDone(tx);
+};
+
+// Layer and input images are shared by reference between entries; each file gets one key so it is stored once.
+const blobKeys = new WeakMap<Blob, string>();
+
+const keyOf = (blob: Blob): string => {
+    let key = blobKeys.get(blob);
+    if (!key) {
+        key = createId();
+        blobKeys.set(blob, key);
+    }
+    return key;
+};
+
+/**
+ * Converts an entry to its stored form, along with the layer and input images
+ * it refers to. Some of those may already be stored by earlier entries.
+ */
+const toStoredEntry = (projectId: string, { file, layers, inputs, ...details }: HistoryEntry): { entry: StoredHistoryEntry; blobs: StoredBlob[] } => {
+    const blobs = new Map<string, StoredBlob>();
+    const store = (blob: File): string => {
+        const key = keyOf(blob);
+        blobs.set(key, { key, projectId, blob, fileName: blob.name });
+        return key;
+    };
+    const entry: StoredHistoryEntry = {
+        ...details,
+        projectId,
+        blob: file,
+        fileName: file.name,
+        layers: layers && {
+            edited: layers.edited,
+            baseKey: store(layers.base),
+            layers: layers.layers.map(({ file: layerFile, mask, ...layer }) => ({
+                ...layer,
+                fileKey: store(layerFile),
+                maskKey: mask && store(mask),
+            })),
+        },
+        inputKeys: inputs && {
+            mask: inputs.mask && store(inputs.mask),
+            background: inputs.background && store(inputs.background),
+        },
+    };
+    return { entry, blobs: [...blobs.values()] };
+};
+
+/**
+ * Queues writes for the blobs that are not stored yet.
+ * @returns The total size of the blobs written.
+ */
+const putNewBlobs = async (store: IDBObjectStore, blobs: StoredBlob[]): Promise<number> => {
+    let size = 0;
+    for (const blob of blobs) {
+        if (await requestToPromise(store.getKey(blob.key)) !== undefined) continue;
+        store.put(blob);
+        size += blob.blob.size;
+    }
+    return size;
+};
+
+const listProjectsNow = async (db: IDBDatabase): Promise<ProjectRecord[]> => {
+    const tx = db.transaction(PROJECTS_STORE, 'readonly');
+    const projects = await requestToPromise<ProjectRecord[]>(tx.objectStore(PROJECTS_STORE).getAll());
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Deletes the least recently updated project other than `keepProjectId`.
+ * Returns false if there was nothing left to evict.
+ */
+const evictOldestProject = async (db: IDBDatabase, keepProjectId?: string): Promise<boolean> => {
+    const candidates = (await listProjectsNow(db)).filter(p => p.id !== keepProjectId);
+    const oldest = candidates[candidates.length - 1];
+    if (!oldest) return false;
+    console.log(`Evicting project '${oldest.name}' to free storage.`);
+    await deleteProjectNow(db, oldest.id);
+    return true;
+};
+
+/**
+ * Frees storage for projects. Cached results can be fetched again, so they
+ * are cleared before any project is evicted. Returns false if there was
+ * nothing left to free.
+ */
+const freeStorage = async (db: IDBDatabase, keepProjectId?: string): Promise<boolean> => {
+    const hasCachedResults = await getCacheStats().then(stats => stats.count > 0, () => false);
+    if (hasCachedResults) {
+        console.log('Clearing the result cache to free storage.');
+        await clearCache();
+        return true;
+    }
+    return evictOldestProject(db, keepProjectId);
+};
+
+const isOverQuota = async (): Promise<boolean> => {
+    if (!navigator.storage?.estimate) return false;
+    const { usage, quota } = await navigator.storage.estimate();
+    return !!usage && !!quota && usage / quota > QUOTA_THRESHOLD;
+};
+
+/**
+ * Evicts old projects until the project count and storage usage are within
+ * limits. The project that is currently open is never evicted.
+ */
+const enforceStorageLimits = async (db: IDBDatabase, keepProjectId?: string): Promise<void> => {
+    let projectCount = (await listProjectsNow(db)).length;
+    while (projectCount > MAX_PROJECTS) {
+        if (!await evictOldestProject(db, keepProjectId)) return;
+        projectCount--;
+    }
+    while (await isOverQuota()) {
+        if (!await freeStorage(db, keepProjectId)) return;
+    }
+};
+
+/**
+ * Runs a write, freeing storage and retrying when the browser reports that
+ * the storage quota has been exceeded.
+ */
+const writeWithEviction = async (db: IDBDatabase, keepProjectId: string, write: () => Promise<void>): Promise<void> => {
+    for (;;) {
+        try {
+            await write();
+            return;
+        } catch (error) {
+            if (!isQuotaError(error) || !await freeStorage(db, keepProjectId)) {
+                throw error;
+            }
+        }
+    }
+};
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+    const db = await openDatabase();
+    return listProjectsNow(db);
+};
+
+/**
+ * Creates an empty project. The id is available immediately; the write is
+ * queued ahead of any entries saved to the project afterwards.
+ */
+export const createProject = (name: string): { id: string; saved: Promise<void> } => {
+    const now = Date.now();
+    const project: ProjectRecord = {
+        id: createId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        entryIds: [],
+        currentId: null,
+        tipId: null,
+        sizeBytes: 0,
+    };
+    const saved = enqueueWrite(async () => {
+        const db = await openDatabase();
+        await writeWithEviction(db, project.id, async () => {
+            const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+            tx.objectStore(PROJECTS_STORE).put(project);
+            await transactionDone(tx);
+        });
+        await enforceStorageLimits(db, project.id);
+    });
+    return { id: project.id, saved };
+};
+
+export interface HistoryPosition {
+    currentId: string | null;
+    tipId: string | null;
+}
+
+/**
+ * Adds new entries to a project's history tree. Entries are never removed;
+ * editing from an earlier step simply creates another branch.
+ * @param projectId The project to update.
+ * @param entries New entries, each pointing at its parent via `parentId`.
+ * @param position The step and branch that are showing after the addition.
+ */
+export const addHistoryEntries = (
+    projectId: string,
+    entries: HistoryEntry[],
+    position: HistoryPosition,
+): Promise<void> => enqueueWrite(async () => {
+    const db = await openDatabase();
+    const project = await getProject(db, projectId);
+    if (!project) throw new Error(`Project ${projectId} does not exist.`);
+
+    const newest = entries[entries.length - 1];
+    const thumbnail = newest ? await getStepImage(newest).then(createThumbnail).catch(() => undefined) : undefined;
+
+    const converted = entries.map(entry => toStoredEntry(projectId, entry));
+    const newEntries = converted.map(({ entry }) => entry);
+
+    await writeWithEviction(db, projectId, async () => {
+        const tx = db.transaction([PROJECTS_STORE, ENTRIES_STORE, BLOBS_STORE], 'readwrite');
+        const entryStore = tx.objectStore(ENTRIES_STORE);
+        newEntries.forEach(entry => entryStore.put(entry));
+        const blobsSize = await putNewBlobs(tx.objectStore(BLOBS_STORE), converted.flatMap(({ blobs }) => blobs));
+
+        const updated: ProjectRecord = {
+            ...project,
+            ...position,
+            entryIds: [...project.entryIds, ...newEntries.map(e => e.id)],
+            sizeBytes: project.sizeBytes + newEntries.reduce((sum, e) => sum + e.blob.size, 0) + blobsSize,
+            updatedAt: Date.now(),
+            thumbnail: thumbnail ?? project.thumbnail,
+        };
+        tx.objectStore(PROJECTS_STORE).put(updated);
+        await transactionDone(tx);
+    });
+    await enforceStorageLimits(db, projectId);
+});
+
+/**
+ * Saves changes to an existing entry, such as rebalanced layers.
+ */
+export const updateHistoryEntry = (projectId: string, entry: HistoryEntry): Promise<void> => enqueueWrite(async () => {
+    const db = await openDatabase();
+    const project = await getProject(db, projectId);
+    if (!project) return;
+    const { entry: stored, blobs } = toStoredEntry(projectId, entry);
+    const isNewest = project.entryIds[project.entryIds.length - 1] === entry.id;
+    const thumbnail = isNewest ? await getStepImage(entry).then(createThumbnail).catch(() => undefined) : undefined;
+
+    await writeWithEviction(db, projectId, async () => {
+        const tx = db.transaction([PROJECTS_STORE, ENTRIES_STORE, BLOBS_STORE], 'readwrite');
+        const entryStore = tx.objectStore(ENTRIES_STORE);
+        const previous = await requestToPromise<StoredHistoryEntry | undefined>(entryStore.get(entry.id));
+        entryStore.put(stored);
+        const blobsSize = await putNewBlobs(tx.objectStore(BLOBS_STORE), blobs);
+        // Replaced masks stay stored; they are removed with the project.
+        const sizeBytes = project.sizeBytes + stored.blob.size - (previous?.blob.size ?? 0) + blobsSize;
+        tx.objectStore(PROJECTS_STORE).put({ ...project, sizeBytes, updatedAt: Date.now(), thumbnail: thumbnail ?? project.thumbnail });
+        await transactionDone(tx);
+    });
+});
+
+/**
+ * Records which step and branch are showing, e.g. after undo, redo or a branch switch.
+ */
+export const setHistoryPosition = (projectId: string, position: HistoryPosition): Promise<void> => enqueueWrite(async () => {
+    const db = await openDatabase();
+    const project = await getProject(db, projectId);
+    if (!project) return;
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    tx.objectStore(PROJECTS_STORE).put({ ...project, ...position, updatedAt: Date.now() });
+    await transactionDone(tx);
+});
+
+/**
+ * Loads a project together with its history entries in order.
+ */
+export const loadProject = async (projectId: string): Promise<{ project: ProjectRecord; entries: HistoryEntry[] }> => {
+    // Wait for pending writes so we never read a half-saved history.
+    await writeQueue;
+    const db = await openDatabase();
+    const project = await getProject(db, projectId);
+    if (!project) throw new Error('This project no longer exists.');
+
+    const tx = db.transaction([ENTRIES_STORE, BLOBS_STORE], 'readonly');
+    const stored = await requestToPromise<StoredHistoryEntry[]>(tx.objectStore(ENTRIES_STORE).index('projectId').getAll(projectId));
+    const storedBlobs = await requestToPromise<StoredBlob[]>(tx.objectStore(BLOBS_STORE).index('projectId').getAll(projectId));
+
+    // One file per key, so entries share layer images just as they did before saving.
+    const files = new Map(storedBlobs.map(({ key, blob, fileName }) => {
+        const file = new File([blob], fileName, { type: blob.type });
+        blobKeys.set(file, key);
+        return [key, file];
+    }));
+    const fileFor = (key: string): File => {
+        const file = files.get(key);
+        if (!file) throw new Error('An image of this project is missing.');
+        return file;
+    };
+    const toLayerStack = (layers: StoredLayerStack): LayerStack => ({
+        edited: layers.edited,
+        base: fileFor(layers.baseKey),
+        layers: layers.layers.map(({ fileKey, maskKey, ...layer }) => ({
+            ...layer,
+            file: fileFor(fileKey),
+            mask: maskKey ? fileFor(maskKey) : null,
+        })),
+    });
+
+    const toInputs = (keys: Partial<Record<keyof StepInputs, string>>): StepInputs => ({
+        mask: keys.mask ? fileFor(keys.mask) : undefined,
+        background: keys.background ? fileFor(keys.background) : undefined,
+    });
+
+    const byId = new Map(stored.map(entry => [entry.id, entry]));
+    const entries = project.entryIds
+        .map(id => byId.get(id))
+        .filter((entry): entry is StoredHistoryEntry => !!entry)
+        .map(({ projectId: _projectId, blob, fileName, layers, inputKeys, ...details }, index, all): HistoryEntry => ({
+            ...details,
+            // Projects saved before branching existed have no parent links; treat them as a straight line.
+            parentId: details.parentId !== undefined ? details.parentId : index > 0 ? all[index - 1].id : null,
+            file: new File([blob], fileName, { type: blob.type }),
+            layers: layers && toLayerStack(layers),
+            inputs: inputKeys && toInputs(inputKeys),
+        }));
+    return { project, entries };
+};
+
+/**
+ * Deletes a project and all of its history entries.
+ */
+export const deleteProject = (projectId: string): Promise<void> => enqueueWrite(async () => {
+    const db = await openDatabase();
+    await deleteProjectNow(db, projectId);
+});
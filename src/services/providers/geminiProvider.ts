@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import {
+    getModelFor,
+    type DetectedObject,
+    type ImageEditProvider,
+    type ImageOperation,
+    type ModelConfig,
+} from '../imageProvider';
+import { NoImageReturnedError, ParseFailureError, SafetyBlockedError } from '../errors';
+
+// Finish reasons that mean the model's safety rules stopped the image.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT']);
+
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new SafetyBlockedError(blockReason, errorMessage);
+    }
+};
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string // e.g., "edit", "filter", "adjustment"
+): string => {
+    // 1. Check for prompt blocking first
+    throwIfBlocked(response);
+
+    // 2. Try to find the image part
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. If no image, check for other reasons
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+        const errorMessage = `Image generation for ${context} was stopped by the model's safety filters. Reason: ${finishReason}.`;
+        console.error(errorMessage, { response });
+        throw new SafetyBlockedError(finishReason, errorMessage);
+    }
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}.`;
+        console.error(errorMessage, { response });
+        throw new NoImageReturnedError(errorMessage);
+    }
+
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` +
+        (textFeedback
+            ? `The model responded with text: "${textFeedback}"`
+            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw new NoImageReturnedError(errorMessage, textFeedback || undefined);
+};
+
+export interface GeminiProviderOptions {
+    /** Defaults to `process.env.API_KEY`. */
+    apiKey?: string;
+    /** Per-operation model overrides that take precedence over the global model config. */
+    models?: Partial<ModelConfig>;
+}
+
+/**
+ * Creates an image provider backed by the Gemini API.
+ */
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): ImageEditProvider => {
+    let client: GoogleGenAI | null = null;
+    // FIX: Use process.env.API_KEY to get the API key as per the guidelines.
+    const getClient = (): GoogleGenAI => {
+        if (!client) {
+            client = new GoogleGenAI({ apiKey: options.apiKey ?? process.env.API_KEY });
+        }
+        return client;
+    };
+    const modelFor = (operation: ImageOperation): string => options.models?.[operation] ?? getModelFor(operation);
+
+    // Sends image parts plus a text prompt and extracts the returned image.
+    const generateImage = async (
+        operation: ImageOperation,
+        imageParts: { inlineData: { mimeType: string; data: string; } }[],
+        prompt: string,
+        context: string,
+        signal?: AbortSignal,
+    ): Promise<string> => {
+        const model = modelFor(operation);
+        console.log(`Sending ${context} request to ${model}...`);
+        const response: GenerateContentResponse = await getClient().models.generateContent({
+            model,
+            contents: { parts: [...imageParts, { text: prompt }] },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+        });
+        console.log(`Received response from model for ${context}.`, response);
+
+        return handleApiResponse(response, context);
+    };
+
+    return {
+        name: 'gemini',
+
+        describeModel: modelFor,
+
+        async edit(originalImage, userPrompt, hotspot, signal) {
+            console.log('Starting generative edit at:', hotspot);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
+User Request: "${userPrompt}"
+Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
+
+Editing Guidelines:
+- The edit must be realistic and blend seamlessly with the surrounding area.
+- The rest of the image (outside the immediate edit area) must remain identical to the original.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final edited image. Do not return text.`;
+
+            return generateImage('edit', [originalImagePart], prompt, 'edit', signal);
+        },
+
+        async maskEdit(originalImage, userPrompt, mask, signal) {
+            console.log('Starting masked generative edit...');
+            const originalImagePart = await fileToPart(originalImage);
+            const maskPart = await fileToPart(mask);
+            const prompt = `You are an expert photo editor AI. You are given two images: the first is the photo to edit, the second is a black-and-white mask of the same size. Perform a natural, localized edit on the photo based on the user's request, restricted to the white area of the mask.
+User Request: "${userPrompt}"
+
+Editing Guidelines:
+- Only modify pixels inside the white area of the mask. Gray areas are soft edges that should blend smoothly.
+- The edit must be realistic and blend seamlessly with the surrounding area.
+- Everything in the black area of the mask must remain identical to the original.
+- Return an image with exactly the same dimensions as the original photo.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final edited photo (not the mask). Do not return text.`;
+
+            return generateImage('maskEdit', [originalImagePart, maskPart], prompt, 'masked edit', signal);
+        },
+
+        async objectEdit(originalImage, userPrompt, object, signal) {
+            console.log(`Starting object edit for '${object.label}' at:`, object.box);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request, constrained to a specific object.
+Object to Edit: The object labeled '${object.label}' located within the bounding box (x1: ${object.box.x1}, y1: ${object.box.y1}, x2: ${object.box.x2}, y2: ${object.box.y2}).
+User Request: "${userPrompt}"
+
+Editing Guidelines:
+- The edit must be realistic and blend seamlessly with the surrounding area.
+- The edit MUST be contained entirely within the provided bounding box.
+- The rest of the image (outside the bounding box) must remain identical to the original.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final edited image. Do not return text.`;
+
+            return generateImage('objectEdit', [originalImagePart], prompt, 'object edit', signal);
+        },
+
+        async filter(originalImage, filterPrompt, signal) {
+            console.log(`Starting filter generation: ${filterPrompt}`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
+Filter Request: "${filterPrompt}"
+
+Safety & Ethics Policy:
+- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
+- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
+
+Output: Return ONLY the final filtered image. Do not return text.`;
+
+            return generateImage('filter', [originalImagePart], prompt, 'filter', signal);
+        },
+
+        async adjust(originalImage, adjustmentPrompt, signal) {
+            console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
+User Request: "${adjustmentPrompt}"
+
+Editing Guidelines:
+- The adjustment must be applied across the entire image.
+- The result must be photorealistic.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final adjusted image. Do not return text.`;
+
+            return generateImage('adjust', [originalImagePart], prompt, 'adjustment', signal);
+        },
+
+        async composite(foregroundImage, backgroundImage, signal) {
+            console.log(`Starting background composition...`);
+            const foregroundImagePart = await fileToPart(foregroundImage);
+            const backgroundImagePart = await fileToPart(backgroundImage);
+            const prompt = `You are an expert photo editor AI. The user has provided two images. The first image contains a subject, and the second image is a new background.
+Your task is to:
+1.  Identify and isolate the main subject from the first image. The subject is likely the most prominent person, animal, or object.
+2.  Realistically composite this isolated subject onto the second image (the background).
+3.  Pay close attention to matching lighting, shadows, color temperature, and perspective to create a seamless and believable final image. The subject should look like it naturally belongs in the new environment.
+4.  If the foreground image contains a person, their identity and features must be preserved exactly.
+
+Output: Return ONLY the final composited image. Do not return text.`;
+
+            return generateImage('composite', [foregroundImagePart, backgroundImagePart], prompt, 'composition', signal);
+        },
+
+        async replaceBackground(originalImage, backgroundPrompt, signal) {
+            console.log(`Starting background replacement: ${backgroundPrompt}`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to replace the background of the image while keeping the main subject exactly as it is.
+New Background: "${backgroundPrompt}"
+
+Editing Guidelines:
+- Identify the main subject (the most prominent person, animal, or object) and keep it unchanged, including its pose, edges, and details.
+- Replace everything behind the subject with the requested background.
+- Match the lighting, shadows, and color temperature on the subject to the new background so the result looks natural.
+- If the image contains a person, their identity and features must be preserved exactly.
+
+Output: Return ONLY the final image with the new background. Do not return text.`;
+
+            return generateImage('replaceBackground', [originalImagePart], prompt, 'background replacement', signal);
+        },
+
+        async segment(originalImage, signal) {
+            console.log('Starting subject segmentation...');
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert image segmentation AI. Your task is to produce a segmentation mask for the main subject of the provided image.
+
+Mask Guidelines:
+- Identify the main subject (the most prominent person, animal, or object).
+- Paint every pixel of the subject pure white and every other pixel pure black.
+- Follow the subject's outline precisely, including hair, fur, and fine edges.
+- The mask must have exactly the same dimensions and framing as the input image.
+
+Output: Return ONLY the black and white mask image. Do not return text.`;
+
+            return generateImage('segment', [originalImagePart], prompt, 'segmentation', signal);
+        },
+
+        async detect(image, signal) {
+            console.log('Starting object detection...');
+            const imagePart = await fileToPart(image);
+            const prompt = `Analyze this image and identify the main objects within it. For each distinct object you find, provide a concise label and its bounding box coordinates. The coordinates should be in pixels, with (0,0) being the top-left corner. Return the output as a JSON array.`;
+
+            const response = await getClient().models.generateContent({
+                model: modelFor('detect'),
+                contents: { parts: [imagePart, { text: prompt }] },
+                config: {
+                    abortSignal: signal,
+                    responseMimeType: 'application/json',
+                    responseSchema: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                label: {
+                                    type: Type.STRING,
+                                    description: 'A short, descriptive label for the detected object (e.g., "cat", "red car", "tree").',
+                                },
+                                box: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        x1: { type: Type.NUMBER, description: 'The x-coordinate of the top-left corner of the bounding box.' },
+                                        y1: { type: Type.NUMBER, description: 'The y-coordinate of the top-left corner of the bounding box.' },
+                                        x2: { type: Type.NUMBER, description: 'The x-coordinate of the bottom-right corner of the bounding box.' },
+                                        y2: { type: Type.NUMBER, description: 'The y-coordinate of the bottom-right corner of the bounding box.' },
+                                    },
+                                    required: ['x1', 'y1', 'x2', 'y2'],
+                                },
+                            },
+                            required: ['label', 'box'],
+                        },
+                    },
+                },
+            });
+            console.log('Received object detection response from model.', response);
+
+            throwIfBlocked(response);
+
+            try {
+                const jsonText = response.text?.trim() ?? '';
+                if (!jsonText) {
+                    console.warn('Object detection returned empty text response.');
+                    return [];
+                }
+                const detectedObjects: DetectedObject[] = JSON.parse(jsonText);
+                // Validate the structure
+                if (!Array.isArray(detectedObjects)) {
+                    throw new Error('Parsed JSON is not an array.');
+                }
+                return detectedObjects;
+            } catch (e) {
+                console.error('Failed to parse JSON response for object detection:', e, 'Raw Text:', response.text);
+                throw new ParseFailureError('The AI model returned an invalid format for object detection. Please try again.');
+            }
+        },
+
+        async upscale(originalImage, width, height, signal) {
+            console.log(`Starting upscale to ${width}x${height}px...`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are a world-class photo editing AI specializing in image upscaling. Your task is to upscale the provided image to ${width} x ${height} pixels. The image may be one tile of a larger photo.
+
+Upscaling Guidelines:
+- Enhance fine details, sharpness, and clarity to a photorealistic level suitable for high-resolution displays.
+- Maintain the original image's content, composition, and color grading perfectly. Do not add, remove, or alter any elements.
+- Keep the framing exactly as given, right up to the edges, so the result lines up with neighbouring tiles.
+- The final output must be free of digital artifacts, noise, or unnatural textures.
+
+Output: Return ONLY the final, high-resolution upscaled image. Do not return text.`;
+
+            return generateImage('upscale', [originalImagePart], prompt, 'upscale', signal);
+        },
+    };
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageEditProvider } from '../imageProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+const providerFactories = {
+    gemini: createGeminiProvider,
+    mock: createMockProvider,
+};
+
+export type ProviderName = keyof typeof providerFactories;
+
+const isProviderName = (name: string | undefined): name is ProviderName =>
+    !!name && Object.prototype.hasOwnProperty.call(providerFactories, name);
+
+// Reads the IMAGE_PROVIDER build setting; falls back to Gemini when unset or unknown.
+const resolveDefaultProviderName = (): ProviderName => {
+    let configured: string | undefined;
+    try {
+        configured = process.env.IMAGE_PROVIDER;
+    } catch {
+        // `process` is not defined in every runtime.
+    }
+    if (configured && !isProviderName(configured)) {
+        console.warn(`Unknown image provider '${configured}', falling back to 'gemini'.`);
+    }
+    return isProviderName(configured) ? configured : 'gemini';
+};
+
+let activeProvider: ImageEditProvider | null = null;
+
+/**
+ * Returns the provider all image operations are routed through,
+ * creating the default one on first use.
+ */
+export const getImageProvider = (): ImageEditProvider => {
+    if (!activeProvider) {
+        activeProvider = providerFactories[resolveDefaultProviderName()]();
+        console.log(`Using '${activeProvider.name}' image provider.`);
+    }
+    return activeProvider;
+};
+
+/**
+ * Swaps the active provider, either by built-in name or with a custom implementation.
+ */
+export const setImageProvider = (provider: ProviderName | ImageEditProvider): void => {
+    activeProvider = typeof provider === 'string' ? providerFactories[provider]() : provider;
+    console.log(`Switched to '${activeProvider.name}' image provider.`);
+};
+
+export { createGeminiProvider, createMockProvider };
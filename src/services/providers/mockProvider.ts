@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from '../../utils/image';
+import { type BoundingBox, type ImageEditProvider } from '../imageProvider';
+
+type PixelTransform = (r: number, g: number, b: number) => [number, number, number];
+
+const clamp = (v: number) => Math.max(0, Math.min(255, v));
+
+// FNV-1a hash so the same prompt always produces the same transform.
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const transforms: PixelTransform[] = [
+    // Sepia
+    (r, g, b) => [clamp(r * 0.393 + g * 0.769 + b * 0.189), clamp(r * 0.349 + g * 0.686 + b * 0.168), clamp(r * 0.272 + g * 0.534 + b * 0.131)],
+    // Grayscale
+    (r, g, b) => { const l = r * 0.299 + g * 0.587 + b * 0.114; return [l, l, l]; },
+    // Invert
+    (r, g, b) => [255 - r, 255 - g, 255 - b],
+    // Warm
+    (r, g, b) => [clamp(r + 30), clamp(g + 10), clamp(b - 25)],
+    // Cool
+    (r, g, b) => [clamp(r - 25), clamp(g + 5), clamp(b + 30)],
+    // High contrast
+    (r, g, b) => [clamp((r - 128) * 1.5 + 128), clamp((g - 128) * 1.5 + 128), clamp((b - 128) * 1.5 + 128)],
+];
+
+const transformForPrompt = (prompt: string): PixelTransform => transforms[hashString(prompt) % transforms.length];
+
+/**
+ * Applies a pixel transform to the canvas, optionally restricted to pixels
+ * for which `inside(x, y)` returns true.
+ */
+const applyTransform = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    transform: PixelTransform,
+    inside?: (x: number, y: number) => boolean,
+) => {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (inside && !inside(x, y)) continue;
+            const i = (y * width + x) * 4;
+            const [r, g, b] = transform(data[i], data[i + 1], data[i + 2]);
+            data[i] = r;
+            data[i + 1] = g;
+            data[i + 2] = b;
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+const transformImage = async (
+    file: File,
+    transform: PixelTransform,
+    inside?: (x: number, y: number) => boolean,
+): Promise<string> => {
+    const img = await loadImage(file);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    applyTransform(ctx, canvas.width, canvas.height, transform, inside);
+    return canvas.toDataURL('image/png');
+};
+
+const insideBox = (box: BoundingBox) => (x: number, y: number) =>
+    x >= box.x1 && x <= box.x2 && y >= box.y1 && y <= box.y2;
+
+export interface MockProviderOptions {
+    /** Artificial delay before each result, to mimic network latency. Defaults to 300ms. */
+    latencyMs?: number;
+}
+
+/**
+ * Creates a deterministic, fully offline provider. Every operation is a
+ * canvas transform derived from its inputs, so the same request always
+ * yields the same pixels.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ImageEditProvider => {
+    const latencyMs = options.latencyMs ?? 300;
+    const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, latencyMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return {
+        name: 'mock',
+
+        describeModel: () => 'mock',
+
+        async edit(image, prompt, hotspot, signal) {
+            await delay(signal);
+            const img = await loadImage(image);
+            const radius = Math.min(img.naturalWidth, img.naturalHeight) * 0.1;
+            return transformImage(image, transformForPrompt(prompt), (x, y) =>
+                (x - hotspot.x) ** 2 + (y - hotspot.y) ** 2 <= radius ** 2);
+        },
+
+        async maskEdit(image, prompt, mask, signal) {
+            await delay(signal);
+            const maskImg = await loadImage(mask);
+            const { canvas, ctx } = createCanvas(maskImg.naturalWidth, maskImg.naturalHeight);
+            ctx.drawImage(maskImg, 0, 0);
+            const maskData = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+            return transformImage(image, transformForPrompt(prompt), (x, y) =>
+                x < canvas.width && y < canvas.height && maskData[(y * canvas.width + x) * 4] > 127);
+        },
+
+        async objectEdit(image, prompt, object, signal) {
+            await delay(signal);
+            return transformImage(image, transformForPrompt(prompt), insideBox(object.box));
+        },
+
+        async filter(image, prompt, signal) {
+            await delay(signal);
+            return transformImage(image, transformForPrompt(prompt));
+        },
+
+        async adjust(image, prompt, signal) {
+            await delay(signal);
+            return transformImage(image, transformForPrompt(prompt));
+        },
+
+        async composite(foreground, background, signal) {
+            await delay(signal);
+            const [fg, bg] = await Promise.all([loadImage(foreground), loadImage(background)]);
+            const { canvas, ctx } = createCanvas(fg.naturalWidth, fg.naturalHeight);
+
+            // Cover-fit the background, then place the foreground centred at 70% size.
+            const bgScale = Math.max(canvas.width / bg.naturalWidth, canvas.height / bg.naturalHeight);
+            const bgWidth = bg.naturalWidth * bgScale;
+            const bgHeight = bg.naturalHeight * bgScale;
+            ctx.drawImage(bg, (canvas.width - bgWidth) / 2, (canvas.height - bgHeight) / 2, bgWidth, bgHeight);
+
+            const fgWidth = canvas.width * 0.7;
+            const fgHeight = canvas.height * 0.7;
+            ctx.drawImage(fg, (canvas.width - fgWidth) / 2, canvas.height - fgHeight, fgWidth, fgHeight);
+            return canvas.toDataURL('image/png');
+        },
+
+        async replaceBackground(image, prompt, signal) {
+            await delay(signal);
+            const img = await loadImage(image);
+            const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+
+            // A two-colour gradient derived from the prompt, with the subject placed as in `composite`.
+            const hash = hashString(prompt);
+            const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+            gradient.addColorStop(0, `hsl(${hash % 360}, 70%, 55%)`);
+            gradient.addColorStop(1, `hsl(${(hash >>> 9) % 360}, 70%, 25%)`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            const fgWidth = canvas.width * 0.7;
+            const fgHeight = canvas.height * 0.7;
+            ctx.drawImage(img, (canvas.width - fgWidth) / 2, canvas.height - fgHeight, fgWidth, fgHeight);
+            return canvas.toDataURL('image/png');
+        },
+
+        async segment(image, signal) {
+            await delay(signal);
+            const img = await loadImage(image);
+            const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+
+            // An ellipse filling the same area as the 'subject' that `detect` reports.
+            ctx.fillStyle = 'black';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.fillStyle = 'white';
+            ctx.beginPath();
+            ctx.ellipse(canvas.width * 0.5, canvas.height * 0.55, canvas.width * 0.25, canvas.height * 0.35, 0, 0, Math.PI * 2);
+            ctx.fill();
+            return canvas.toDataURL('image/png');
+        },
+
+        async detect(image, signal) {
+            await delay(signal);
+            const img = await loadImage(image);
+            const w = img.naturalWidth;
+            const h = img.naturalHeight;
+            return [
+                { label: 'subject', box: { x1: Math.round(w * 0.25), y1: Math.round(h * 0.2), x2: Math.round(w * 0.75), y2: Math.round(h * 0.9) } },
+                { label: 'top left area', box: { x1: 0, y1: 0, x2: Math.round(w * 0.3), y2: Math.round(h * 0.3) } },
+                { label: 'bottom right area', box: { x1: Math.round(w * 0.7), y1: Math.round(h * 0.7), x2: w, y2: h } },
+            ];
+        },
+
+        async upscale(image, width, height, signal) {
+            await delay(signal);
+            const img = await loadImage(image);
+            const { canvas, ctx } = createCanvas(width, height);
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            return canvas.toDataURL('image/png');
+        },
+    };
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Recipe } from './recipes';
+
+const STORAGE_KEY = 'pixshop.recipes';
+
+/**
+ * Lists saved recipes, most recently created first.
+ */
+export const listRecipes = (): Recipe[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const recipes: Recipe[] = stored ? JSON.parse(stored) : [];
+        return recipes.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (err) {
+        console.error('Failed to read saved recipes.', err);
+        return [];
+    }
+};
+
+const writeRecipes = (recipes: Recipe[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+};
+
+/**
+ * Saves a recipe, replacing any saved recipe with the same id.
+ */
+export const saveRecipe = (recipe: Recipe): void => {
+    writeRecipes([recipe, ...listRecipes().filter(r => r.id !== recipe.id)]);
+};
+
+export const deleteRecipe = (id: string): void => {
+    writeRecipes(listRecipes().filter(r => r.id !== id));
+};
@@ -0,0 +1,432 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    compositeWithBackground,
+    detectObjects,
+    generateAdjustedImage,
+    generateBackgroundReplacement,
+    generateEditedImage,
+    generateFilteredImage,
+    generateMaskedEdit,
+    generateObjectEdit,
+    getModelLabel,
+    upscaleImage,
+    type BoundingBox,
+    type Resolution,
+    type RequestOptions,
+    type UpscaleMethod,
+} from './geminiService';
+import { resolutionConfig } from './imageProvider';
+import type { HistoryEntry, HistoryEntryDetails } from '../types';
+import { adjustmentControls, renderAdjustedImage, type AdjustmentSettings } from '../utils/adjustments';
+import { renderGradedImage, type ColorGrade } from '../utils/colorGrade';
+import { compositeRegion, compositeWithMask } from '../utils/compositing';
+import { canvasToFile, createCanvas, dataURLtoFile, loadImage } from '../utils/image';
+import { createId } from '../utils/id';
+import { getStepImage } from '../utils/layers';
+import { drawTransformed, getTransformedSize, type ImageTransform } from '../utils/transform';
+
+/**
+ * One replayable step. Positions are stored as fractions of the image size
+ * so a recipe applies to images of any resolution.
+ */
+export type RecipeStep =
+    | { operation: 'retouch'; prompt: string; hotspot: { x: number; y: number } }
+    | { operation: 'object-edit'; prompt: string; label: string; confineToBox: boolean; feather: number }
+    | { operation: 'filter'; prompt: string }
+    | { operation: 'filter'; grade: ColorGrade }
+    | { operation: 'style'; prompt: string }
+    | { operation: 'adjustment'; prompt: string }
+    | { operation: 'adjustment'; settings: AdjustmentSettings }
+    | { operation: 'background'; prompt: string }
+    | { operation: 'crop'; x: number; y: number; width: number; height: number; aspect?: number; transform?: ImageTransform }
+    | { operation: 'upscale'; resolution: Resolution; method: UpscaleMethod };
+
+export interface Recipe {
+    id: string;
+    name: string;
+    createdAt: number;
+    steps: RecipeStep[];
+}
+
+/** The file format version written by `serializeRecipe`. */
+const RECIPE_FORMAT_VERSION = 1;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isResolution = (value: unknown): value is Resolution => typeof value === 'string' && value in resolutionConfig;
+
+const isUpscaleMethod = (value: unknown): value is UpscaleMethod => value === 'model' || value === 'local';
+
+const isAdjustmentSettings = (value: unknown): value is AdjustmentSettings =>
+    !!value && typeof value === 'object'
+    && adjustmentControls.every(({ key }) => isNumber((value as Record<string, unknown>)[key]));
+
+const isImageTransform = (value: unknown): value is ImageTransform => {
+    if (!value || typeof value !== 'object') return false;
+    const transform = value as Record<string, unknown>;
+    return isNumber(transform.rotation) && isNumber(transform.quarterTurns)
+        && typeof transform.flipHorizontal === 'boolean' && typeof transform.flipVertical === 'boolean';
+};
+
+const isColorGrade = (value: unknown): value is ColorGrade => {
+    if (!value || typeof value !== 'object') return false;
+    const grade = value as Record<string, unknown>;
+    const curves = grade.curves as Record<string, unknown> | undefined;
+    const lut = grade.lut as Record<string, unknown> | null | undefined;
+    return !!curves && ['rgb', 'red', 'green', 'blue'].every(channel => Array.isArray(curves[channel]))
+        && (lut === null || (!!lut && typeof lut.name === 'string' && typeof lut.source === 'string'))
+        && isNumber(grade.lutStrength);
+};
+
+const toStep = (entry: HistoryEntry, width: number, height: number): RecipeStep | null => {
+    const params = entry.parameters ?? {};
+    switch (entry.operation) {
+        case 'retouch': {
+            const hotspot = params.hotspot as { x: number; y: number } | undefined;
+            // Painted masks are tied to one image, so only point edits can be replayed.
+            if (params.mode !== 'point' || !hotspot || !entry.prompt) return null;
+            return { operation: 'retouch', prompt: entry.prompt, hotspot: { x: hotspot.x / width, y: hotspot.y / height } };
+        }
+        case 'object-edit':
+            if (!entry.prompt || typeof params.label !== 'string') return null;
+            return {
+                operation: 'object-edit',
+                prompt: entry.prompt,
+                label: params.label,
+                confineToBox: params.confineToBox === true,
+                feather: isNumber(params.feather) ? params.feather : 0,
+            };
+        case 'adjustment':
+            if (params.mode === 'local') {
+                return isAdjustmentSettings(params.settings) ? { operation: 'adjustment', settings: params.settings } : null;
+            }
+            return entry.prompt ? { operation: 'adjustment', prompt: entry.prompt } : null;
+        case 'filter':
+            if (params.mode === 'grade') {
+                return isColorGrade(params.grade) ? { operation: 'filter', grade: params.grade } : null;
+            }
+            return entry.prompt ? { operation: 'filter', prompt: entry.prompt } : null;
+        case 'style':
+        case 'background':
+            // Uploaded backgrounds have no prompt and are skipped along with uploads.
+            return entry.prompt ? { operation: entry.operation, prompt: entry.prompt } : null;
+        case 'crop': {
+            if (![params.x, params.y, params.width, params.height].every(isNumber)) return null;
+            const transform = isImageTransform(params.transform) ? params.transform : undefined;
+            // The rectangle was drawn on the rotated image.
+            const size = transform ? getTransformedSize(width, height, transform) : { width, height };
+            return {
+                operation: 'crop',
+                x: (params.x as number) / size.width,
+                y: (params.y as number) / size.height,
+                width: (params.width as number) / size.width,
+                height: (params.height as number) / size.height,
+                aspect: isNumber(params.aspect) ? params.aspect : undefined,
+                transform,
+            };
+        }
+        case 'upscale':
+            if (!isResolution(params.resolution) || !isUpscaleMethod(params.method)) return null;
+            return { operation: 'upscale', resolution: params.resolution, method: params.method };
+        default:
+            // Uploads depend on files that are not part of the recipe.
+            return null;
+    }
+};
+
+/**
+ * Builds a recipe from a sequence of history steps, oldest first.
+ * @param name The recipe name.
+ * @param path The steps to record, starting with the image they were applied to.
+ * @returns The recipe and the steps that could not be recorded.
+ */
+export const createRecipeFromHistory = async (
+    name: string,
+    path: HistoryEntry[],
+): Promise<{ recipe: Recipe; skipped: HistoryEntry[] }> => {
+    const steps: RecipeStep[] = [];
+    const skipped: HistoryEntry[] = [];
+    for (let i = 1; i < path.length; i++) {
+        // Parameters are in pixels of the image each step was applied to.
+        const source = await loadImage(await getStepImage(path[i - 1]));
+        const step = toStep(path[i], source.naturalWidth, source.naturalHeight);
+        if (step) {
+            steps.push(step);
+        } else {
+            skipped.push(path[i]);
+        }
+    }
+    return { recipe: { id: createId(), name, createdAt: Date.now(), steps }, skipped };
+};
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+    !!value && typeof value === 'object' && isNumber((value as Record<string, unknown>).x) && isNumber((value as Record<string, unknown>).y);
+
+const isBoundingBox = (value: unknown): value is BoundingBox => {
+    if (!value || typeof value !== 'object') return false;
+    const box = value as Record<string, unknown>;
+    return [box.x1, box.y1, box.x2, box.y2].every(isNumber);
+};
+
+/**
+ * Whether a history step can be sent to the model again with the inputs it
+ * was first produced from.
+ */
+export const canReplay = (entry: HistoryEntry): boolean => {
+    const params = entry.parameters ?? {};
+    if (entry.operation === 'retouch' && params.mode === 'mask') return !!entry.prompt && !!entry.inputs?.mask;
+    if (entry.operation === 'background' && params.mode === 'upload') return !!entry.inputs?.background;
+    if (entry.operation === 'object-edit') return !!entry.prompt && typeof params.label === 'string' && isBoundingBox(params.box);
+    // The image size only scales coordinates, so any size tells whether a recipe step exists.
+    return toStep(entry, 1, 1) !== null;
+};
+
+/**
+ * Runs a history step again on the image it was applied to, with the same
+ * prompt, masks, boxes and files. Unlike a recipe step, nothing is looked up
+ * again, so each request matches the one that produced the step.
+ * @param source The image the step was applied to.
+ * @param options Cancels the step's requests, reports retries or bypasses the result cache.
+ * @returns The new image and the details to record in history.
+ * @throws If the step cannot be replayed; check `canReplay` first.
+ */
+export const replayHistoryStep = async (
+    entry: HistoryEntry,
+    source: File,
+    options: RequestOptions = {},
+): Promise<{ file: File; details: HistoryEntryDetails }> => {
+    const params = entry.parameters ?? {};
+    const details: HistoryEntryDetails = { operation: entry.operation, prompt: entry.prompt, parameters: entry.parameters, inputs: entry.inputs, model: entry.model };
+    if (entry.operation === 'retouch' && params.mode === 'mask' && entry.prompt && entry.inputs?.mask) {
+        const { mask } = entry.inputs;
+        const url = await compositeWithMask(source, await generateMaskedEdit(source, entry.prompt, mask, options), mask);
+        return { file: dataURLtoFile(url, `edited-${Date.now()}.png`), details: { ...details, model: getModelLabel('maskEdit') } };
+    }
+    if (entry.operation === 'retouch' && params.mode === 'point' && entry.prompt && isPoint(params.hotspot)) {
+        // The hotspot is used as recorded; scaling it like a recipe step could round it differently.
+        const url = await generateEditedImage(source, entry.prompt, params.hotspot, options);
+        return { file: dataURLtoFile(url, `edited-${Date.now()}.png`), details: { ...details, model: getModelLabel('edit') } };
+    }
+    if (entry.operation === 'background' && params.mode === 'upload' && entry.inputs?.background) {
+        const url = await compositeWithBackground(source, entry.inputs.background, options);
+        return { file: dataURLtoFile(url, `composited-${Date.now()}.png`), details: { ...details, model: getModelLabel('composite') } };
+    }
+    if (entry.operation === 'object-edit' && entry.prompt && typeof params.label === 'string' && isBoundingBox(params.box)) {
+        const box = params.box;
+        const generatedUrl = await generateObjectEdit(source, entry.prompt, { label: params.label, box }, options);
+        const url = params.confineToBox === true
+            ? await compositeRegion(source, generatedUrl, box, isNumber(params.feather) ? params.feather : 0)
+            : generatedUrl;
+        return { file: dataURLtoFile(url, `object-edit-${Date.now()}.png`), details: { ...details, model: getModelLabel('objectEdit') } };
+    }
+    const img = await loadImage(source);
+    const step = toStep(entry, img.naturalWidth, img.naturalHeight);
+    if (!step) {
+        throw new Error('This step cannot be run again.');
+    }
+    return runRecipeStep(source, step, options);
+};
+
+const isRecipeStep = (value: unknown): value is RecipeStep => {
+    if (!value || typeof value !== 'object') return false;
+    const step = value as Record<string, unknown>;
+    switch (step.operation) {
+        case 'retouch': {
+            const hotspot = step.hotspot as Record<string, unknown> | undefined;
+            return typeof step.prompt === 'string' && !!hotspot && isNumber(hotspot.x) && isNumber(hotspot.y);
+        }
+        case 'object-edit':
+            return typeof step.prompt === 'string' && typeof step.label === 'string'
+                && typeof step.confineToBox === 'boolean' && isNumber(step.feather);
+        case 'adjustment':
+            return typeof step.prompt === 'string' || isAdjustmentSettings(step.settings);
+        case 'filter':
+            return typeof step.prompt === 'string' || isColorGrade(step.grade);
+        case 'style':
+        case 'background':
+            return typeof step.prompt === 'string';
+        case 'crop':
+            return [step.x, step.y, step.width, step.height].every(isNumber)
+                && (step.aspect === undefined || isNumber(step.aspect))
+                && (step.transform === undefined || isImageTransform(step.transform));
+        case 'upscale':
+            return isResolution(step.resolution) && isUpscaleMethod(step.method);
+        default:
+            return false;
+    }
+};
+
+/**
+ * Serializes a recipe to the JSON file format.
+ */
+export const serializeRecipe = (recipe: Recipe): string => JSON.stringify({
+    version: RECIPE_FORMAT_VERSION,
+    name: recipe.name,
+    createdAt: recipe.createdAt,
+    steps: recipe.steps,
+}, null, 2);
+
+/**
+ * Parses a recipe file, giving it a fresh id.
+ * @throws If the file is not valid JSON or not a recipe this version understands.
+ */
+export const parseRecipe = (text: string): Recipe => {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!data || typeof data !== 'object' || data.version !== RECIPE_FORMAT_VERSION) {
+        throw new Error('The file is not a supported recipe.');
+    }
+    if (typeof data.name !== 'string' || !Array.isArray(data.steps) || !data.steps.every(isRecipeStep)) {
+        throw new Error('The recipe is missing a name or has invalid steps.');
+    }
+    return {
+        id: createId(),
+        name: data.name,
+        createdAt: isNumber(data.createdAt) ? data.createdAt : Date.now(),
+        steps: data.steps,
+    };
+};
+
+const cropImage = async (image: File, step: Extract<RecipeStep, { operation: 'crop' }>): Promise<{ file: File; box: BoundingBox }> => {
+    const loaded = await loadImage(image);
+    const img = step.transform
+        ? drawTransformed(loaded, loaded.naturalWidth, loaded.naturalHeight, step.transform)
+        : loaded;
+    const imageWidth = img instanceof HTMLCanvasElement ? img.width : loaded.naturalWidth;
+    const imageHeight = img instanceof HTMLCanvasElement ? img.height : loaded.naturalHeight;
+    let width = step.width * imageWidth;
+    let height = step.height * imageHeight;
+    if (step.aspect) {
+        // Keep the recorded aspect ratio even when the new image has a different shape.
+        height = width / step.aspect;
+        if (height > imageHeight) {
+            height = imageHeight;
+            width = height * step.aspect;
+        }
+        width = Math.min(width, imageWidth);
+    }
+    const centerX = (step.x + step.width / 2) * imageWidth;
+    const centerY = (step.y + step.height / 2) * imageHeight;
+    const x = Math.round(Math.min(Math.max(centerX - width / 2, 0), imageWidth - width));
+    const y = Math.round(Math.min(Math.max(centerY - height / 2, 0), imageHeight - height));
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, x, y, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    const file = await canvasToFile(canvas, `cropped-${Date.now()}.png`);
+    return { file, box: { x1: x, y1: y, x2: x + canvas.width, y2: y + canvas.height } };
+};
+
+// Filters and styles both send their prompt to the filter model.
+const runPromptFilter = async (
+    image: File,
+    step: { operation: 'filter' | 'style'; prompt: string },
+    options: RequestOptions,
+): Promise<{ file: File; details: HistoryEntryDetails }> => {
+    const url = await generateFilteredImage(image, step.prompt, options);
+    return {
+        file: dataURLtoFile(url, `filtered-${Date.now()}.png`),
+        details: { operation: step.operation, prompt: step.prompt, model: getModelLabel('filter') },
+    };
+};
+
+/**
+ * Applies one recipe step to an image.
+ * @param options Cancels the step's requests or reports retries.
+ * @returns The resulting image and the details to record in history.
+ */
+export const runRecipeStep = async (
+    image: File,
+    step: RecipeStep,
+    options: RequestOptions = {},
+): Promise<{ file: File; details: HistoryEntryDetails }> => {
+    switch (step.operation) {
+        case 'retouch': {
+            const img = await loadImage(image);
+            const hotspot = { x: Math.round(step.hotspot.x * img.naturalWidth), y: Math.round(step.hotspot.y * img.naturalHeight) };
+            const url = await generateEditedImage(image, step.prompt, hotspot, options);
+            return {
+                file: dataURLtoFile(url, `edited-${Date.now()}.png`),
+                details: { operation: 'retouch', prompt: step.prompt, parameters: { mode: 'point', hotspot }, model: getModelLabel('edit') },
+            };
+        }
+        case 'object-edit': {
+            const objects = await detectObjects(image, options);
+            const object = objects.find(o => o.label.toLowerCase() === step.label.toLowerCase());
+            if (!object) {
+                throw new Error(`No "${step.label}" was found in this image.`);
+            }
+            const generatedUrl = await generateObjectEdit(image, step.prompt, object, options);
+            const url = step.confineToBox ? await compositeRegion(image, generatedUrl, object.box, step.feather) : generatedUrl;
+            return {
+                file: dataURLtoFile(url, `object-edit-${Date.now()}.png`),
+                details: {
+                    operation: 'object-edit',
+                    prompt: step.prompt,
+                    parameters: { label: object.label, box: object.box, confineToBox: step.confineToBox, feather: step.feather },
+                    model: getModelLabel('objectEdit'),
+                },
+            };
+        }
+        case 'filter':
+            if ('grade' in step) {
+                return {
+                    file: await renderGradedImage(image, step.grade),
+                    details: { operation: 'filter', parameters: { mode: 'grade', grade: step.grade } },
+                };
+            }
+            return runPromptFilter(image, step, options);
+        case 'style':
+            return runPromptFilter(image, step, options);
+        case 'adjustment': {
+            if ('settings' in step) {
+                return {
+                    file: await renderAdjustedImage(image, step.settings),
+                    details: { operation: 'adjustment', parameters: { mode: 'local', settings: step.settings } },
+                };
+            }
+            const url = await generateAdjustedImage(image, step.prompt, options);
+            return {
+                file: dataURLtoFile(url, `adjusted-${Date.now()}.png`),
+                details: { operation: 'adjustment', prompt: step.prompt, model: getModelLabel('adjust') },
+            };
+        }
+        case 'background': {
+            const url = await generateBackgroundReplacement(image, step.prompt, options);
+            return {
+                file: dataURLtoFile(url, `background-${Date.now()}.png`),
+                details: { operation: 'background', prompt: step.prompt, parameters: { mode: 'prompt' }, model: getModelLabel('replaceBackground') },
+            };
+        }
+        case 'crop': {
+            const { file, box } = await cropImage(image, step);
+            return {
+                file,
+                details: {
+                    operation: 'crop',
+                    parameters: {
+                        x: box.x1, y: box.y1, width: box.x2 - box.x1, height: box.y2 - box.y1, aspect: step.aspect,
+                        ...(step.transform ? { transform: step.transform } : {}),
+                    },
+                },
+            };
+        }
+        case 'upscale':
+            return {
+                file: await upscaleImage(image, step.resolution, { ...options, method: step.method }),
+                details: {
+                    operation: 'upscale',
+                    parameters: { resolution: step.resolution, method: step.method },
+                    model: step.method === 'model' ? getModelLabel('upscale') : undefined,
+                },
+            };
+    }
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NetworkOfflineError, RateLimitedError, toServiceError } from './errors';
+
+/** Why a failed attempt is worth repeating. */
+export type RetryReason = 'rate-limit' | 'unavailable' | 'timeout' | 'network';
+
+export interface RetryInfo {
+    /** The attempt that just failed, starting at 1. */
+    attempt: number;
+    maxAttempts: number;
+    /** How long until the next attempt starts. */
+    delayMs: number;
+    reason: RetryReason;
+}
+
+/** Options accepted by every service call that reaches a model. */
+export interface RequestOptions {
+    /** Aborts the request, including any retries that are still waiting. */
+    signal?: AbortSignal;
+    /** Called before waiting to retry a failed attempt, e.g. to tell the user why it is taking longer. */
+    onRetry?: (retry: RetryInfo) => void;
+    /** Asks the model again instead of reusing a cached result; the new result replaces the cached one. */
+    regenerate?: boolean;
+    /** Tells apart requests that are identical on purpose, e.g. the variations of one edit, so each gets its own cached result. */
+    variant?: number;
+}
+
+export interface RetryPolicy {
+    /** Attempts per request, including the first. */
+    maxAttempts: number;
+    /** Delay before the first retry; doubles with every further attempt. */
+    baseDelayMs: number;
+    /** Longest wait between attempts. A server asking for a longer wait ends the retries. */
+    maxDelayMs: number;
+    /** How long a single attempt may take before it is abandoned. */
+    timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 20000,
+    timeoutMs: 120000,
+};
+
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+/**
+ * Overrides how requests are retried and timed out.
+ * Settings that are not listed keep their current value.
+ */
+export const setRetryPolicy = (overrides: Partial<RetryPolicy>): void => {
+    retryPolicy = { ...retryPolicy, ...overrides };
+};
+
+export const getRetryPolicy = (): RetryPolicy => ({ ...retryPolicy });
+
+export class RequestTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`The request did not finish within ${Math.round(timeoutMs / 1000)} seconds.`);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/**
+ * Whether an error means the request was cancelled by the caller, so there is
+ * nothing to report.
+ */
+export const isAbortError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'AbortError';
+
+const getStatus = (err: unknown): number | undefined => {
+    const status = (err as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Decides whether a failed attempt could succeed if repeated. Expects the
+ * error to have been through `toServiceError` already.
+ * @returns Why the error is transient, or null if retrying would not help.
+ */
+export const classifyError = (err: unknown): RetryReason | null => {
+    if (err instanceof RequestTimeoutError) return 'timeout';
+    if (err instanceof RateLimitedError) return 'rate-limit';
+    if (err instanceof NetworkOfflineError) return 'network';
+    const status = getStatus(err);
+    const message = err instanceof Error ? err.message : String(err);
+    if (status === 500 || status === 502 || status === 503 || status === 504 || /\b(UNAVAILABLE|overloaded)\b/i.test(message)) return 'unavailable';
+    return null;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own signal, which aborts on timeout or when the caller's signal does.
+const attemptWithTimeout = <T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+    // Settles as soon as the attempt is aborted, even if the provider ignores its signal.
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+    return Promise.race([request(controller.signal), aborted]).finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+    });
+};
+
+/**
+ * Runs a request with a per-attempt timeout, retrying rate limits, overloaded
+ * servers, timeouts and dropped connections with exponential backoff. Other
+ * errors are thrown straight away.
+ * @param request Performs one attempt; should stop when its signal aborts.
+ * @throws The caller's abort reason if `options.signal` aborts, otherwise the last attempt's error,
+ * as a typed service error where one applies.
+ */
+export const withRetry = async <T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    { signal, onRetry }: RequestOptions = {},
+): Promise<T> => {
+    const { maxAttempts, baseDelayMs, maxDelayMs, timeoutMs } = retryPolicy;
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await attemptWithTimeout(request, timeoutMs, signal);
+        } catch (caught) {
+            if (signal?.aborted) throw signal.reason;
+            const err = toServiceError(caught);
+            const reason = classifyError(err);
+            if (!reason || attempt >= maxAttempts) throw err;
+
+            // Backoff with jitter, so parallel variations do not retry in lockstep.
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+            const suggested = err instanceof RateLimitedError ? err.retryAfterMs : null;
+            const delayMs = Math.round(Math.max(backoff, suggested ?? 0));
+            if (delayMs > maxDelayMs) throw err;
+
+            console.warn(`Attempt ${attempt} of ${maxAttempts} failed (${reason}); retrying in ${delayMs} ms.`, err);
+            onRetry?.({ attempt, maxAttempts, delayMs, reason });
+            await sleep(delayMs, signal);
+        }
+    }
+};
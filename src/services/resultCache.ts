@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { requestToPromise, transactionDone } from '../utils/indexedDb';
+
+const DB_NAME = 'pixshop-cache';
+const DB_VERSION = 1;
+/** The cached values, which can be large. */
+const RESULTS_STORE = 'results';
+/** Small records describing each result, so sizes can be totalled without reading the results. */
+const ENTRIES_STORE = 'entries';
+
+/** The least recently used results are evicted once the cache grows past this. */
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+interface CachedResult {
+    key: string;
+    value: unknown;
+}
+
+interface CacheEntry {
+    key: string;
+    operation: string;
+    sizeBytes: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CacheStats {
+    count: number;
+    sizeBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+                    db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                    db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// The same image is usually hashed several times, e.g. once per variation.
+const blobDigests = new WeakMap<Blob, Promise<string>>();
+
+const digestBlob = (blob: Blob): Promise<string> => {
+    let digest = blobDigests.get(blob);
+    if (!digest) {
+        digest = blob.arrayBuffer().then(bytes => crypto.subtle.digest('SHA-256', bytes)).then(toHex);
+        blobDigests.set(blob, digest);
+    }
+    return digest;
+};
+
+/**
+ * Derives a cache key from the bytes of every input image and a description
+ * of the request, such as the operation, prompt and model.
+ * @throws If SHA-256 is unavailable, e.g. outside a secure context.
+ */
+export const createCacheKey = async (inputs: Blob[], request: Record<string, unknown>): Promise<string> => {
+    const digests = await Promise.all(inputs.map(digestBlob));
+    const description = new TextEncoder().encode(JSON.stringify({ ...request, inputs: digests }));
+    return toHex(await crypto.subtle.digest('SHA-256', description));
+};
+
+/**
+ * Returns a cached result, or undefined if there is none.
+ */
+export const getCachedResult = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const tx = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    const [result, entry] = await Promise.all([
+        requestToPromise<CachedResult | undefined>(tx.objectStore(RESULTS_STORE).get(key)),
+        requestToPromise<CacheEntry | undefined>(tx.objectStore(ENTRIES_STORE).get(key)),
+    ]);
+    if (!result || !entry) return undefined;
+    tx.objectStore(ENTRIES_STORE).put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(tx);
+    return result.value as T;
+};
+
+const estimateSize = (value: unknown): number =>
+    typeof value === 'string' ? value.length : JSON.stringify(value)?.length ?? 0;
+
+/**
+ * Stores a result, replacing any cached under the same key, then evicts the
+ * least recently used results if the cache has grown too large.
+ */
+export const putCachedResult = async (key: string, operation: string, value: unknown): Promise<void> => {
+    const db = await openDatabase();
+    const now = Date.now();
+    const tx = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    tx.objectStore(RESULTS_STORE).put({ key, value } satisfies CachedResult);
+    tx.objectStore(ENTRIES_STORE).put({ key, operation, sizeBytes: estimateSize(value), createdAt: now, lastUsedAt: now } satisfies CacheEntry);
+
+    const entries = await requestToPromise<CacheEntry[]>(tx.objectStore(ENTRIES_STORE).getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+        if (total <= MAX_CACHE_BYTES || entry.key === key) continue;
+        tx.objectStore(RESULTS_STORE).delete(entry.key);
+        tx.objectStore(ENTRIES_STORE).delete(entry.key);
+        total -= entry.sizeBytes;
+    }
+    await transactionDone(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const db = await openDatabase();
+    const tx = db.transaction(ENTRIES_STORE, 'readonly');
+    const entries = await requestToPromise<CacheEntry[]>(tx.objectStore(ENTRIES_STORE).getAll());
+    return { count: entries.length, sizeBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0) };
+};
+
+export const clearCache = async (): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    tx.objectStore(RESULTS_STORE).clear();
+    tx.objectStore(ENTRIES_STORE).clear();
+    await transactionDone(tx);
+};
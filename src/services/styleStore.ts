@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A look the user saved alongside the built-in styles. */
+export interface CustomStyle {
+    id: string;
+    name: string;
+    prompt: string;
+    /** Gradient colour stops used for its thumbnail. */
+    colors: string[];
+    createdAt: number;
+}
+
+const STORAGE_KEY = 'pixshop.customStyles';
+
+/**
+ * Lists saved custom styles, oldest first.
+ */
+export const listCustomStyles = (): CustomStyle[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const styles: CustomStyle[] = stored ? JSON.parse(stored) : [];
+        return styles.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (err) {
+        console.error('Failed to read saved styles.', err);
+        return [];
+    }
+};
+
+const writeCustomStyles = (styles: CustomStyle[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+};
+
+export const saveCustomStyle = (style: CustomStyle): void => {
+    writeCustomStyles([...listCustomStyles().filter(s => s.id !== style.id), style]);
+};
+
+export const deleteCustomStyle = (id: string): void => {
+    writeCustomStyles(listCustomStyles().filter(s => s.id !== id));
+};
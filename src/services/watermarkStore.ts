@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { OverlayItem } from '../utils/overlays';
+
+/** A saved set of overlays that can be stamped on every export. */
+export interface WatermarkPreset {
+    id: string;
+    name: string;
+    createdAt: number;
+    items: OverlayItem[];
+}
+
+const STORAGE_KEY = 'pixshop.watermarks';
+const EXPORT_WATERMARK_KEY = 'pixshop.exportWatermark';
+
+/**
+ * Lists saved watermark presets, most recently created first.
+ */
+export const listWatermarks = (): WatermarkPreset[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const presets: WatermarkPreset[] = stored ? JSON.parse(stored) : [];
+        return presets.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (err) {
+        console.error('Failed to read saved watermarks.', err);
+        return [];
+    }
+};
+
+const writeWatermarks = (presets: WatermarkPreset[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Saves a preset, replacing any saved preset with the same id.
+ * @throws If the browser's storage is full, e.g. because of large logos.
+ */
+export const saveWatermark = (preset: WatermarkPreset): void => {
+    writeWatermarks([preset, ...listWatermarks().filter(p => p.id !== preset.id)]);
+};
+
+export const deleteWatermark = (id: string): void => {
+    writeWatermarks(listWatermarks().filter(p => p.id !== id));
+    if (getExportWatermarkId() === id) setExportWatermarkId(null);
+};
+
+/**
+ * The preset applied to every download and export, if any.
+ */
+export const getExportWatermarkId = (): string | null => localStorage.getItem(EXPORT_WATERMARK_KEY);
+
+export const setExportWatermarkId = (id: string | null): void => {
+    if (id) {
+        localStorage.setItem(EXPORT_WATERMARK_KEY, id);
+    } else {
+        localStorage.removeItem(EXPORT_WATERMARK_KEY);
+    }
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The kind of operation that produced a history entry. */
+export type OperationKind =
+  | 'upload'
+  | 'retouch'
+  | 'object-edit'
+  | 'filter'
+  | 'style'
+  | 'adjustment'
+  | 'background'
+  | 'crop'
+  | 'upscale'
+  | 'overlay';
+
+/** How a layer combines with the layers below it; the names match canvas composite operations. */
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+/** A full-frame result stacked over a base image. */
+export interface Layer {
+  id: string;
+  /** Shown in the layer list, e.g. the operation that produced the layer. */
+  name: string;
+  file: File;
+  /** From 0 to 1. */
+  opacity: number;
+  blendMode: BlendMode;
+  visible: boolean;
+  /** A greyscale mask where white shows the layer, or null to show all of it. */
+  mask: File | null;
+}
+
+/** The unflattened form of a history step. */
+export interface LayerStack {
+  /** The image the layers are stacked on, e.g. the upload or the last crop. */
+  base: File;
+  /** Bottom to top. */
+  layers: Layer[];
+  /** Set once the layers are changed after the step was made; until then the step's `file` shows them exactly. Read the image through `getStepImage`. */
+  edited?: boolean;
+}
+
+/** Images an operation used besides the one it was applied to. */
+export interface StepInputs {
+  /** The painted area of a masked retouch, with its feathering applied. */
+  mask?: File;
+  /** The uploaded background image the subject was composited onto. */
+  background?: File;
+}
+
+/** A single step in the editing history, with a record of how it was produced. */
+export interface HistoryEntry {
+  id: string;
+  file: File;
+  operation: OperationKind;
+  /** The prompt sent to the model, if any. */
+  prompt?: string;
+  /** Operation-specific inputs such as a hotspot, object box or crop rectangle. */
+  parameters?: Record<string, unknown>;
+  /** Kept so the step can be sent to the model again exactly as it was. */
+  inputs?: StepInputs;
+  /** Id of the history entry this step was derived from; null for the uploaded original. */
+  parentId: string | null;
+  /** How long the operation took to produce this step. */
+  durationMs?: number;
+  /** The model that produced this step, if it was AI-generated. */
+  model?: string;
+  /** The layers the step is made of, if it can still be rebalanced. These are what the step shows, not `file`, once edited. */
+  layers?: LayerStack;
+  createdAt: number;
+}
+
+/** The descriptive part of a history entry, supplied when an operation completes. */
+export type HistoryEntryDetails = Pick<HistoryEntry, 'operation' | 'prompt' | 'parameters' | 'inputs' | 'durationMs' | 'model'>;
+
+/**
+ * Alternative results of a single request. Only the variants the user picks
+ * are added to history; the rest stay available for the session.
+ */
+export interface VariantSet {
+  id: string;
+  /** The history entry the variants were generated from. */
+  sourceId: string;
+  details: HistoryEntryDetails;
+  files: File[];
+  /** The history entry each variant was added as, or null if it has not been used. */
+  entryIds: (string | null)[];
+  createdAt: number;
+}
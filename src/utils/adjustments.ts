@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas, getImagePixels, loadImage } from './image';
+
+/** Slider values for the local adjustment pipeline. 0 leaves the image unchanged. */
+export interface AdjustmentSettings {
+    exposure: number;
+    contrast: number;
+    highlights: number;
+    shadows: number;
+    temperature: number;
+    tint: number;
+    saturation: number;
+    vibrance: number;
+    sharpness: number;
+    vignette: number;
+}
+
+export type AdjustmentKey = keyof AdjustmentSettings;
+
+/** Every adjustment in the order it is applied, with its slider range. */
+export const adjustmentControls: { key: AdjustmentKey; label: string; min: number; max: number }[] = [
+    { key: 'exposure', label: 'Exposure', min: -100, max: 100 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+    { key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+    { key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100 },
+    { key: 'tint', label: 'Tint', min: -100, max: 100 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+    { key: 'vibrance', label: 'Vibrance', min: -100, max: 100 },
+    { key: 'sharpness', label: 'Sharpness', min: 0, max: 100 },
+    { key: 'vignette', label: 'Vignette', min: -100, max: 100 },
+];
+
+export const DEFAULT_ADJUSTMENTS: AdjustmentSettings = {
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    temperature: 0,
+    tint: 0,
+    saturation: 0,
+    vibrance: 0,
+    sharpness: 0,
+    vignette: 0,
+};
+
+export const isNeutralAdjustment = (settings: AdjustmentSettings): boolean =>
+    adjustmentControls.every(({ key }) => settings[key] === 0);
+
+/**
+ * Lists the non-zero adjustments, e.g. "Exposure +20, Vignette 35".
+ */
+export const describeAdjustments = (settings: AdjustmentSettings): string =>
+    adjustmentControls
+        .filter(({ key }) => settings[key] !== 0)
+        .map(({ key, label }) => `${label} ${settings[key] > 0 && key !== 'sharpness' ? '+' : ''}${settings[key]}`)
+        .join(', ') || 'No change';
+
+const luminance = (r: number, g: number, b: number) => r * 0.2126 + g * 0.7152 + b * 0.0722;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+// Unsharp mask against a 3x3 box blur of the image.
+const sharpen = (imageData: ImageData, amount: number): void => {
+    const { width, height, data } = imageData;
+    const source = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const ny = y + dy;
+                    if (ny < 0 || ny >= height) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        if (nx < 0 || nx >= width) continue;
+                        sum += source[(ny * width + nx) * 4 + c];
+                        count++;
+                    }
+                }
+                data[i + c] = source[i + c] + (source[i + c] - sum / count) * amount;
+            }
+        }
+    }
+};
+
+/**
+ * Applies the adjustments to a copy of the pixels. Runs entirely on the CPU,
+ * so the same settings always give the same result.
+ */
+export const applyAdjustments = (source: ImageData, settings: AdjustmentSettings): ImageData => {
+    const { width, height } = source;
+    const input = source.data;
+    const output = new ImageData(width, height);
+    const out = output.data;
+
+    const exposure = 2 ** (settings.exposure / 50);
+    const contrast = 1 + settings.contrast / 100;
+    const highlights = settings.highlights / 200;
+    const shadows = settings.shadows / 200;
+    const temperature = settings.temperature / 100 * 0.15;
+    const tint = settings.tint / 100 * 0.15;
+    const saturation = 1 + settings.saturation / 100;
+    const vibrance = settings.vibrance / 100;
+    const vignette = settings.vignette / 100;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistance = Math.hypot(centerX, centerY);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            let r = input[i] / 255 * exposure;
+            let g = input[i + 1] / 255 * exposure;
+            let b = input[i + 2] / 255 * exposure;
+
+            // Shadows act mostly on dark pixels and highlights on bright ones.
+            const l = Math.min(1, luminance(r, g, b));
+            const tone = shadows * (1 - l) ** 2 + highlights * l ** 2;
+            r = (r + tone - 0.5) * contrast + 0.5;
+            g = (g + tone - 0.5) * contrast + 0.5;
+            b = (b + tone - 0.5) * contrast + 0.5;
+
+            r += temperature + tint / 2;
+            g -= tint;
+            b += tint / 2 - temperature;
+
+            // Vibrance boosts muted colours more than already saturated ones.
+            const gray = luminance(r, g, b);
+            const chroma = Math.min(1, Math.max(r, g, b) - Math.min(r, g, b));
+            const colorScale = saturation * (1 + vibrance * (1 - chroma));
+            r = gray + (r - gray) * colorScale;
+            g = gray + (g - gray) * colorScale;
+            b = gray + (b - gray) * colorScale;
+
+            if (vignette !== 0) {
+                const falloff = 1 - vignette * smoothstep(0.4, 1, Math.hypot(x - centerX, y - centerY) / maxDistance);
+                r *= falloff;
+                g *= falloff;
+                b *= falloff;
+            }
+
+            out[i] = r * 255;
+            out[i + 1] = g * 255;
+            out[i + 2] = b * 255;
+            out[i + 3] = input[i + 3];
+        }
+    }
+
+    if (settings.sharpness > 0) {
+        sharpen(output, settings.sharpness / 50);
+    }
+    return output;
+};
+
+/**
+ * Applies the adjustments to an image at full resolution.
+ * @returns A promise that resolves to the adjusted image as a PNG file.
+ */
+export const renderAdjustedImage = async (image: File, settings: AdjustmentSettings): Promise<File> => {
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.putImageData(applyAdjustments(getImagePixels(img, canvas.width, canvas.height), settings), 0, 0);
+    return canvasToFile(canvas, `adjusted-${Date.now()}.png`);
+};
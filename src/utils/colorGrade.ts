@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas, getImagePixels, loadImage } from './image';
+
+/** A control point on a tone curve, with both coordinates from 0 to 255. */
+export interface CurvePoint {
+    x: number;
+    y: number;
+}
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+/** One curve for all channels together and one per channel. */
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+/** A repeatable colour grade: tone curves followed by an optional 3D LUT. */
+export interface ColorGrade {
+    curves: ToneCurves;
+    /** A .cube LUT, kept as its source text so grades can be saved and shared. */
+    lut: { name: string; source: string } | null;
+    /** How much of the LUT is blended in, from 0 to 100. */
+    lutStrength: number;
+}
+
+/** A parsed 3D LUT. `data` holds RGB triples with red changing fastest. */
+export interface Lut3D {
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    data: Float32Array;
+}
+
+const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_CURVES: ToneCurves = {
+    rgb: IDENTITY_CURVE,
+    red: IDENTITY_CURVE,
+    green: IDENTITY_CURVE,
+    blue: IDENTITY_CURVE,
+};
+
+export const DEFAULT_COLOR_GRADE: ColorGrade = {
+    curves: DEFAULT_CURVES,
+    lut: null,
+    lutStrength: 100,
+};
+
+const isIdentityCurve = (points: CurvePoint[]): boolean => points.every(p => p.x === p.y);
+
+export const isNeutralGrade = (grade: ColorGrade): boolean =>
+    (!grade.lut || grade.lutStrength === 0)
+    && (Object.keys(grade.curves) as CurveChannel[]).every(channel => isIdentityCurve(grade.curves[channel]));
+
+const parseTriple = (parts: string[], line: string): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || !values.every(Number.isFinite)) {
+        throw new Error(`Could not read the line "${line}".`);
+    }
+    return values as [number, number, number];
+};
+
+/**
+ * Parses the text of an Adobe/Resolve `.cube` 3D LUT file.
+ * @throws If the file is not a valid 3D LUT.
+ */
+export const parseCubeLut = (text: string): Lut3D => {
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+        const [keyword, ...rest] = line.split(/\s+/);
+        switch (keyword) {
+            case 'TITLE':
+                break;
+            case 'LUT_3D_SIZE':
+                size = Number(rest[0]);
+                break;
+            case 'LUT_1D_SIZE':
+                throw new Error('1D LUTs are not supported. Export a 3D LUT instead.');
+            case 'DOMAIN_MIN':
+                domainMin = parseTriple(rest, line);
+                break;
+            case 'DOMAIN_MAX':
+                domainMax = parseTriple(rest, line);
+                break;
+            default:
+                values.push(...parseTriple([keyword, ...rest], line));
+        }
+    }
+
+    if (!Number.isInteger(size) || size < 2 || size > 256) {
+        throw new Error('The file has no valid LUT_3D_SIZE.');
+    }
+    if (values.length !== size ** 3 * 3) {
+        throw new Error(`Expected ${size ** 3} colour entries but found ${values.length / 3}.`);
+    }
+    return { size, domainMin, domainMax, data: Float32Array.from(values) };
+};
+
+// Parsing large LUTs is slow, and previews rebuild the processor on every change.
+let lastParsedLut: { source: string; lut: Lut3D } | null = null;
+
+const getParsedLut = (source: string): Lut3D => {
+    if (lastParsedLut?.source !== source) {
+        lastParsedLut = { source, lut: parseCubeLut(source) };
+    }
+    return lastParsedLut.lut;
+};
+
+/**
+ * Builds a 256-entry lookup table from curve points using monotone cubic
+ * interpolation, so the curve never overshoots between points.
+ */
+export const buildCurveTable = (points: CurvePoint[]): Uint8ClampedArray => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const n = sorted.length;
+    const table = new Uint8ClampedArray(256);
+    if (n === 0) {
+        return table.map((_, i) => i);
+    }
+
+    const secants: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        secants.push((sorted[i + 1].y - sorted[i].y) / Math.max(1, sorted[i + 1].x - sorted[i].x));
+    }
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return secants[0] ?? 0;
+        if (i === n - 1) return secants[n - 2];
+        return secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (secants[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / secants[i];
+        const b = tangents[i + 1] / secants[i];
+        const magnitude = a * a + b * b;
+        if (magnitude > 9) {
+            const scale = 3 / Math.sqrt(magnitude);
+            tangents[i] = scale * a * secants[i];
+            tangents[i + 1] = scale * b * secants[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= sorted[0].x) {
+            table[x] = sorted[0].y;
+            continue;
+        }
+        if (x >= sorted[n - 1].x) {
+            table[x] = sorted[n - 1].y;
+            continue;
+        }
+        while (x > sorted[segment + 1].x) segment++;
+        const p0 = sorted[segment];
+        const p1 = sorted[segment + 1];
+        const h = p1.x - p0.x;
+        const t = (x - p0.x) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        table[x] = (2 * t3 - 3 * t2 + 1) * p0.y
+            + (t3 - 2 * t2 + t) * h * tangents[segment]
+            + (-2 * t3 + 3 * t2) * p1.y
+            + (t3 - t2) * h * tangents[segment + 1];
+    }
+    return table;
+};
+
+const toLutCoordinate = (lut: Lut3D, value: number, channel: number): number => {
+    const normalized = (value - lut.domainMin[channel]) / (lut.domainMax[channel] - lut.domainMin[channel]);
+    return Math.min(1, Math.max(0, normalized)) * (lut.size - 1);
+};
+
+// Trilinear interpolation between the eight LUT entries around a colour.
+const sampleLut = (lut: Lut3D, r: number, g: number, b: number, out: number[]): void => {
+    const { size, data } = lut;
+    const max = size - 1;
+    const x = toLutCoordinate(lut, r, 0);
+    const y = toLutCoordinate(lut, g, 1);
+    const z = toLutCoordinate(lut, b, 2);
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const z0 = Math.floor(z);
+    const fx = x - x0;
+    const fy = y - y0;
+    const fz = z - z0;
+    // Offsets of the neighbouring entries along each axis, 0 at the upper edge.
+    const dx = x0 < max ? 3 : 0;
+    const dy = y0 < max ? size * 3 : 0;
+    const dz = z0 < max ? size * size * 3 : 0;
+    const base = (x0 + y0 * size + z0 * size * size) * 3;
+
+    for (let c = 0; c < 3; c++) {
+        const i = base + c;
+        const c00 = data[i] + (data[i + dx] - data[i]) * fx;
+        const c10 = data[i + dy] + (data[i + dy + dx] - data[i + dy]) * fx;
+        const c01 = data[i + dz] + (data[i + dz + dx] - data[i + dz]) * fx;
+        const c11 = data[i + dz + dy] + (data[i + dz + dy + dx] - data[i + dz + dy]) * fx;
+        const c0 = c00 + (c10 - c00) * fy;
+        const c1 = c01 + (c11 - c01) * fy;
+        out[c] = c0 + (c1 - c0) * fz;
+    }
+};
+
+/**
+ * Prepares a grade for repeated use, e.g. for a live preview.
+ * @returns A function that applies the grade to a copy of the pixels.
+ * @throws If the grade's LUT cannot be parsed.
+ */
+export const createColorGradeProcessor = (grade: ColorGrade): (source: ImageData) => ImageData => {
+    // Each channel's own curve is applied first, then the combined RGB curve.
+    const master = buildCurveTable(grade.curves.rgb);
+    const channelTables = (['red', 'green', 'blue'] as const).map(channel => {
+        const table = buildCurveTable(grade.curves[channel]);
+        return table.map(v => master[v]);
+    });
+    const lut = grade.lut && grade.lutStrength > 0 ? getParsedLut(grade.lut.source) : null;
+    const strength = grade.lutStrength / 100;
+
+    return (source: ImageData): ImageData => {
+        const input = source.data;
+        const output = new ImageData(source.width, source.height);
+        const out = output.data;
+        const graded = [0, 0, 0];
+        for (let i = 0; i < input.length; i += 4) {
+            const r = channelTables[0][input[i]];
+            const g = channelTables[1][input[i + 1]];
+            const b = channelTables[2][input[i + 2]];
+            if (lut) {
+                sampleLut(lut, r / 255, g / 255, b / 255, graded);
+                out[i] = r + (graded[0] * 255 - r) * strength;
+                out[i + 1] = g + (graded[1] * 255 - g) * strength;
+                out[i + 2] = b + (graded[2] * 255 - b) * strength;
+            } else {
+                out[i] = r;
+                out[i + 1] = g;
+                out[i + 2] = b;
+            }
+            out[i + 3] = input[i + 3];
+        }
+        return output;
+    };
+};
+
+/**
+ * Applies a grade to an image at full resolution.
+ * @returns A promise that resolves to the graded image as a PNG file.
+ */
+export const renderGradedImage = async (image: File, grade: ColorGrade): Promise<File> => {
+    const process = createColorGradeProcessor(grade);
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.putImageData(process(getImagePixels(img, canvas.width, canvas.height)), 0, 0);
+    return canvasToFile(canvas, `graded-${Date.now()}.png`);
+};
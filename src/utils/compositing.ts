@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BoundingBox } from '../services/geminiService';
+import { createCanvas, getImagePixels, loadImage } from './image';
+
+/**
+ * Blends `edited` over `original` using one weight (0-255) per pixel and
+ * returns a PNG data URL. Pixels with weight 0 are copied from the original
+ * unchanged.
+ */
+const blendWithWeights = (
+    originalImg: HTMLImageElement,
+    editedImg: HTMLImageElement,
+    weights: Uint8ClampedArray,
+): string => {
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const output = getImagePixels(originalImg, width, height);
+    const editedData = getImagePixels(editedImg, width, height).data;
+    const out = output.data;
+
+    for (let p = 0; p < weights.length; p++) {
+        const weight = weights[p];
+        if (weight === 0) continue;
+        const i = p * 4;
+        if (weight === 255) {
+            out[i] = editedData[i];
+            out[i + 1] = editedData[i + 1];
+            out[i + 2] = editedData[i + 2];
+            out[i + 3] = editedData[i + 3];
+            continue;
+        }
+        const a = weight / 255;
+        for (let c = 0; c < 4; c++) {
+            out[i + c] = Math.round(out[i + c] * (1 - a) + editedData[i + c] * a);
+        }
+    }
+
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Blends an AI-edited image back onto the original using a grayscale mask.
+ * The edited image is resized to the original's dimensions first. Wherever
+ * the mask is black the original pixels are copied unchanged, so everything
+ * outside the painted area is guaranteed to be byte-identical.
+ * @param original The image the edit was requested on.
+ * @param edited The data URL returned by the model.
+ * @param mask A grayscale mask where white marks the edited area.
+ * @returns A promise that resolves to the data URL of the composited PNG.
+ */
+export const compositeWithMask = async (
+    original: File,
+    edited: string,
+    mask: Blob,
+): Promise<string> => {
+    const [originalImg, editedImg, maskImg] = await Promise.all([
+        loadImage(original),
+        loadImage(edited),
+        loadImage(mask),
+    ]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const maskData = getImagePixels(maskImg, width, height).data;
+    const weights = new Uint8ClampedArray(width * height);
+    for (let p = 0; p < weights.length; p++) {
+        weights[p] = maskData[p * 4];
+    }
+
+    return blendWithWeights(originalImg, editedImg, weights);
+};
+
+/**
+ * Blends only the bounding box region of an AI-edited image back onto the
+ * original, after resizing it to the original's dimensions. The weight
+ * ramps from 0 at the box edge to full strength `feather` pixels inside it,
+ * so nothing outside the box ever changes.
+ * @param original The image the edit was requested on.
+ * @param edited The data URL returned by the model.
+ * @param box The region, in original image pixels, to take from the edit.
+ * @param feather Width of the soft edge in pixels. 0 gives a hard edge.
+ * @returns A promise that resolves to the data URL of the composited PNG.
+ */
+export const compositeRegion = async (
+    original: File,
+    edited: string,
+    box: BoundingBox,
+    feather: number,
+): Promise<string> => {
+    const [originalImg, editedImg] = await Promise.all([
+        loadImage(original),
+        loadImage(edited),
+    ]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const x1 = Math.max(0, Math.floor(Math.min(box.x1, box.x2)));
+    const y1 = Math.max(0, Math.floor(Math.min(box.y1, box.y2)));
+    const x2 = Math.min(width, Math.ceil(Math.max(box.x1, box.x2)));
+    const y2 = Math.min(height, Math.ceil(Math.max(box.y1, box.y2)));
+
+    const weights = new Uint8ClampedArray(width * height);
+    for (let y = y1; y < y2; y++) {
+        for (let x = x1; x < x2; x++) {
+            const edgeDistance = Math.min(x - x1, x2 - 1 - x, y - y1, y2 - 1 - y) + 1;
+            weights[y * width + x] = feather > 0 ? Math.min(1, edgeDistance / feather) * 255 : 255;
+        }
+    }
+
+    return blendWithWeights(originalImg, editedImg, weights);
+};
+
+/**
+ * Makes the background of an image transparent using a grayscale mask. The
+ * mask is resized to the image's dimensions and its brightness becomes each
+ * pixel's opacity, so grey edge pixels stay partly see-through.
+ * @param image The image to cut out.
+ * @param mask A grayscale mask where white marks the pixels to keep.
+ * @returns A promise that resolves to the data URL of the transparent PNG.
+ */
+export const applyAlphaMask = async (
+    image: File,
+    mask: Blob,
+): Promise<string> => {
+    const [img, maskImg] = await Promise.all([
+        loadImage(image),
+        loadImage(mask),
+    ]);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const output = getImagePixels(img, width, height);
+    const maskData = getImagePixels(maskImg, width, height).data;
+    const out = output.data;
+    for (let i = 0; i < out.length; i += 4) {
+        out[i + 3] = Math.round(out[i + 3] * maskData[i] / 255);
+    }
+
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
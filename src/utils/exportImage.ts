@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas } from './image';
+import { prepareMetadataForExport, readImageMetadata, writeImageMetadata, type ImageMetadata } from './metadata';
+
+export type ExportFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+export const exportFormats: Record<ExportFormat, {
+    label: string;
+    mimeType: string;
+    extension: string;
+    /** Whether the format takes a quality setting. */
+    lossy: boolean;
+    keepsTransparency: boolean;
+    /** Whether EXIF and XMP can be written to it. */
+    keepsMetadata: boolean;
+}> = {
+    jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, keepsTransparency: false, keepsMetadata: true },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, keepsTransparency: true, keepsMetadata: false },
+    avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, keepsTransparency: true, keepsMetadata: false },
+    png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, keepsTransparency: true, keepsMetadata: true },
+};
+
+/** What to do with the metadata of the original photo. */
+export type MetadataMode = 'keep' | 'remove-location' | 'strip';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** Encoder quality from 1 to 100, for lossy formats. */
+    quality: number;
+    /** When set, the highest quality that fits within this many kilobytes is used instead of `quality`. */
+    targetSizeKb: number | null;
+    width: number;
+    height: number;
+    /** Converts colours from an embedded profile to sRGB. When off, JPEGs keep the original profile. */
+    convertToSrgb: boolean;
+    metadata: MetadataMode;
+}
+
+export interface ExportResult {
+    blob: Blob;
+    /** The quality that was used, which differs from the requested one in target size mode. */
+    quality: number;
+    /** True if the target size could not be reached even at the lowest quality. */
+    exceedsTarget: boolean;
+}
+
+export const MAX_EXPORT_DIMENSION = 16384;
+
+const MIN_TARGET_QUALITY = 5;
+const TARGET_SEARCH_STEPS = 7;
+
+const supportedFormats = new Map<ExportFormat, boolean>();
+
+/**
+ * Checks whether this browser can encode a format. Browsers that cannot
+ * silently fall back to PNG.
+ */
+export const isFormatSupported = (format: ExportFormat): boolean => {
+    if (!supportedFormats.has(format)) {
+        const { mimeType } = exportFormats[format];
+        const { canvas } = createCanvas(1, 1);
+        supportedFormats.set(format, canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`));
+    }
+    return supportedFormats.get(format)!;
+};
+
+const encode = async (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> => {
+    const { mimeType, lossy } = exportFormats[format];
+    const file = await canvasToFile(canvas, `export.${exportFormats[format].extension}`, mimeType, lossy ? quality / 100 : undefined);
+    if (file.type !== mimeType) {
+        throw new Error(`This browser cannot save ${exportFormats[format].label} images.`);
+    }
+    return file;
+};
+
+const metadataSize = (metadata: ImageMetadata | null): number =>
+    (metadata?.exif?.length ?? 0) + (metadata?.xmp?.length ?? 0) + (metadata?.icc?.length ?? 0);
+
+/**
+ * Encodes an image with the given format, size and metadata options.
+ * @param image The image to export.
+ * @param options How to encode it.
+ * @param metadataSource The original photo whose EXIF and XMP are kept, if any.
+ */
+export const exportImage = async (image: File, options: ExportOptions, metadataSource: File | null): Promise<ExportResult> => {
+    const format = exportFormats[options.format];
+    const width = Math.round(options.width);
+    const height = Math.round(options.height);
+    if (!(width >= 1 && height >= 1 && width <= MAX_EXPORT_DIMENSION && height <= MAX_EXPORT_DIMENSION)) {
+        throw new Error(`Width and height must be between 1 and ${MAX_EXPORT_DIMENSION} pixels.`);
+    }
+
+    // Keeping the profile only makes sense if it is written back, which only JPEG supports here.
+    const profile = !options.convertToSrgb && options.format === 'jpeg' ? (await readImageMetadata(image)).icc : null;
+    let metadata: ImageMetadata | null = null;
+    if (format.keepsMetadata && options.metadata !== 'strip' && metadataSource) {
+        const original = await readImageMetadata(metadataSource);
+        metadata = { ...prepareMetadataForExport(original, options.metadata === 'remove-location'), icc: profile };
+    } else if (profile) {
+        metadata = { exif: null, xmp: null, icc: profile };
+    }
+
+    const bitmap = await createImageBitmap(image, { colorSpaceConversion: profile ? 'none' : 'default' });
+    const { canvas, ctx } = createCanvas(width, height);
+    if (!format.keepsTransparency) {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    let quality = options.quality;
+    let blob: Blob;
+    let exceedsTarget = false;
+    if (format.lossy && options.targetSizeKb) {
+        // Binary search for the highest quality that fits, leaving room for the metadata.
+        const targetBytes = options.targetSizeKb * 1024 - metadataSize(metadata);
+        let low = MIN_TARGET_QUALITY;
+        let high = 100;
+        let best: { blob: Blob; quality: number } | null = null;
+        for (let step = 0; step < TARGET_SEARCH_STEPS && low <= high; step++) {
+            const mid = Math.round((low + high) / 2);
+            const candidate = await encode(canvas, options.format, mid);
+            if (candidate.size <= targetBytes) {
+                best = { blob: candidate, quality: mid };
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        if (!best) {
+            best = { blob: await encode(canvas, options.format, MIN_TARGET_QUALITY), quality: MIN_TARGET_QUALITY };
+            exceedsTarget = true;
+        }
+        ({ blob, quality } = best);
+    } else {
+        blob = await encode(canvas, options.format, quality);
+    }
+
+    if (metadata) {
+        blob = await writeImageMetadata(blob, metadata);
+    }
+    return { blob, quality, exceedsTarget };
+};
+
+/**
+ * Formats a byte count for display, e.g. "840 KB" or "2.4 MB".
+ */
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+    new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await entryToFile(entry as FileSystemFileEntry)];
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const files: File[] = [];
+        // readEntries returns results in chunks until it yields an empty batch.
+        for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+            for (const child of batch) {
+                files.push(...await collectEntry(child));
+            }
+        }
+        return files;
+    }
+    return [];
+};
+
+/**
+ * Returns every image in a file list, sorted by name.
+ */
+export const getImageFiles = (files: FileList | File[] | null): File[] =>
+    Array.from(files ?? []).filter(isImageFile).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+/**
+ * Returns every image in a drop, descending into any dropped folders.
+ * Falls back to the flat file list in browsers without directory entries.
+ */
+export const getDroppedImageFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) {
+        return getImageFiles(dataTransfer.files);
+    }
+    const nested = await Promise.all(entries.map(collectEntry));
+    return getImageFiles(nested.flat());
+};
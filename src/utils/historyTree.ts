@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry } from '../types';
+
+/**
+ * Returns the entries from the root down to `tipId`, inclusive.
+ * Returns an empty array if `tipId` is not in the history.
+ */
+export const getPath = (entries: HistoryEntry[], tipId: string | null): HistoryEntry[] => {
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    const path: HistoryEntry[] = [];
+    let node = tipId ? byId.get(tipId) : undefined;
+    while (node) {
+        path.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return path;
+};
+
+/**
+ * Returns the direct children of an entry, oldest first.
+ */
+export const getChildren = (entries: HistoryEntry[], id: string): HistoryEntry[] =>
+    entries.filter(entry => entry.parentId === id);
+
+/**
+ * Returns every entry without children, i.e. the tip of each branch, oldest first.
+ */
+export const getLeaves = (entries: HistoryEntry[]): HistoryEntry[] => {
+    const parents = new Set(entries.map(entry => entry.parentId));
+    return entries.filter(entry => !parents.has(entry.id));
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Decodes an image file or URL (object or data URL) into an HTMLImageElement that is ready to be drawn.
+ */
+export const loadImage = (source: Blob | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const cleanup = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+        };
+        const img = new Image();
+        img.onload = () => {
+            cleanup();
+            resolve(img);
+        };
+        img.onerror = () => {
+            cleanup();
+            reject(new Error('Could not decode the image.'));
+        };
+        img.src = url;
+    });
+};
+
+/**
+ * Creates an offscreen canvas of the given size along with its 2D context.
+ */
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a 2D canvas context.');
+    return { canvas, ctx };
+};
+
+/**
+ * Draws an image onto a new canvas, resizing it to the given dimensions,
+ * and returns its raw pixel data.
+ */
+export const getImagePixels = (img: CanvasImageSource, width: number, height: number): ImageData => {
+    const { ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Maps a pointer position to natural image pixel coordinates for an element
+ * that renders the image with `object-fit: contain`. Returns null when the
+ * pointer is over the letterboxed area.
+ */
+export const clientToImagePoint = (
+    element: HTMLElement,
+    naturalWidth: number,
+    naturalHeight: number,
+    clientX: number,
+    clientY: number,
+): { x: number, y: number } | null => {
+    const rect = element.getBoundingClientRect();
+    const scale = Math.min(rect.width / naturalWidth, rect.height / naturalHeight);
+    const offsetX = (rect.width - naturalWidth * scale) / 2;
+    const offsetY = (rect.height - naturalHeight * scale) / 2;
+    const x = (clientX - rect.left - offsetX) / scale;
+    const y = (clientY - rect.top - offsetY) / scale;
+    if (x < 0 || y < 0 || x > naturalWidth || y > naturalHeight) return null;
+    return { x, y };
+};
+
+/**
+ * Encodes a canvas into a File.
+ */
+export const canvasToFile = (canvas: HTMLCanvasElement, filename: string, type = 'image/png', quality?: number): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) {
+                reject(new Error('Could not encode the canvas.'));
+                return;
+            }
+            resolve(new File([blob], filename, { type: blob.type }));
+        }, type, quality);
+    });
+};
+
+/**
+ * Checks whether any pixel of an image is less than fully opaque. Large
+ * images are checked at a reduced size.
+ */
+export const hasTransparency = async (file: Blob, maxSize = 512): Promise<boolean> => {
+    if (file.type === 'image/jpeg') return false;
+    const img = await loadImage(file);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const { data } = getImagePixels(img, width, height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+// Helper to convert a data URL string to a File object
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const arr = dataurl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], filename, {type:mime});
+}
+
+/**
+ * Renders a downscaled JPEG copy of an image, e.g. for thumbnails in lists.
+ */
+export const createThumbnail = async (file: Blob, maxSize = 256): Promise<Blob> => {
+    const img = await loadImage(file);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvasToFile(canvas, 'thumbnail.jpg', 'image/jpeg', 0.8);
+};
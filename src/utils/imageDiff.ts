@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImagePixels, loadImage } from './image';
+
+/** Per-pixel differences between two images, ready to be drawn as a heatmap. */
+export interface DifferenceMap {
+    width: number;
+    height: number;
+    /** The largest channel difference of each pixel, from 0 to 255. */
+    values: Uint8Array;
+    /** The second image at the map's size, shown dimmed under the heatmap. */
+    base: ImageData;
+    /** True if the first image had to be stretched to the size of the second. */
+    resized: boolean;
+}
+
+/**
+ * Compares two images pixel by pixel. The first image is scaled to the size
+ * of the second if they differ, e.g. after a crop or upscale.
+ * @param maxSize Longest side of the comparison; larger images are compared scaled down.
+ */
+export const computeDifferenceMap = async (a: Blob, b: Blob, maxSize = 2048): Promise<DifferenceMap> => {
+    const [imgA, imgB] = await Promise.all([loadImage(a), loadImage(b)]);
+    const scale = Math.min(1, maxSize / Math.max(imgB.naturalWidth, imgB.naturalHeight));
+    const width = Math.max(1, Math.round(imgB.naturalWidth * scale));
+    const height = Math.max(1, Math.round(imgB.naturalHeight * scale));
+    const pixelsA = getImagePixels(imgA, width, height).data;
+    const base = getImagePixels(imgB, width, height);
+    const pixelsB = base.data;
+
+    const values = new Uint8Array(width * height);
+    for (let i = 0, p = 0; p < values.length; i += 4, p++) {
+        values[p] = Math.max(
+            Math.abs(pixelsA[i] - pixelsB[i]),
+            Math.abs(pixelsA[i + 1] - pixelsB[i + 1]),
+            Math.abs(pixelsA[i + 2] - pixelsB[i + 2]),
+            Math.abs(pixelsA[i + 3] - pixelsB[i + 3]),
+        );
+    }
+    const resized = imgA.naturalWidth !== imgB.naturalWidth || imgA.naturalHeight !== imgB.naturalHeight;
+    return { width, height, values, base, resized };
+};
+
+// Heat colours from small to large differences: blue, yellow, red.
+const heatColor = (t: number): [number, number, number] => t < 0.5
+    ? [t * 2 * 255, t * 2 * 255, 255 * (1 - t * 2)]
+    : [255, 255 * (2 - t * 2), 0];
+
+/**
+ * Draws a difference map as a heatmap over a dimmed, grey copy of the image.
+ * @param threshold Differences at or below this value (0-255) count as unchanged, which hides compression noise.
+ * @returns The heatmap and the fraction of pixels that changed.
+ */
+export const renderDifferenceHeatmap = (map: DifferenceMap, threshold: number): { image: ImageData; changedRatio: number } => {
+    const image = new ImageData(map.width, map.height);
+    const out = image.data;
+    const base = map.base.data;
+    const range = Math.max(1, 255 - threshold);
+    let changed = 0;
+    for (let p = 0, i = 0; p < map.values.length; p++, i += 4) {
+        const value = map.values[p];
+        if (value > threshold) {
+            const [r, g, b] = heatColor(Math.min(1, (value - threshold) / range * 2));
+            out[i] = r;
+            out[i + 1] = g;
+            out[i + 2] = b;
+            changed++;
+        } else {
+            const grey = (base[i] * 0.299 + base[i + 1] * 0.587 + base[i + 2] * 0.114) * 0.35;
+            out[i] = grey;
+            out[i + 1] = grey;
+            out[i + 2] = grey;
+        }
+        out[i + 3] = 255;
+    }
+    return { image, changedRatio: changed / map.values.length };
+};
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendMode, HistoryEntry, HistoryEntryDetails, Layer, LayerStack } from '../types';
+import { canvasToFile, createCanvas, getImagePixels, loadImage } from './image';
+import { createId } from './id';
+
+/** Every blend mode in the order it is offered. */
+export const blendModes: { value: BlendMode; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'screen', label: 'Screen' },
+    { value: 'overlay', label: 'Overlay' },
+    { value: 'darken', label: 'Darken' },
+    { value: 'lighten', label: 'Lighten' },
+    { value: 'color-dodge', label: 'Color Dodge' },
+    { value: 'color-burn', label: 'Color Burn' },
+    { value: 'hard-light', label: 'Hard Light' },
+    { value: 'soft-light', label: 'Soft Light' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'exclusion', label: 'Exclusion' },
+    { value: 'hue', label: 'Hue' },
+    { value: 'saturation', label: 'Saturation' },
+    { value: 'color', label: 'Color' },
+    { value: 'luminosity', label: 'Luminosity' },
+];
+
+/**
+ * Whether a step's result is stacked as a layer over the image it was made
+ * from. Crops and upscales change the frame, and a cutout is meant to show
+ * what is behind it, so those replace the image instead.
+ */
+export const isLayeredOperation = (details: HistoryEntryDetails): boolean => {
+    switch (details.operation) {
+        case 'retouch':
+        case 'object-edit':
+        case 'filter':
+        case 'style':
+        case 'adjustment':
+        case 'overlay':
+            return true;
+        case 'background':
+            return details.parameters?.mode !== 'remove';
+        default:
+            return false;
+    }
+};
+
+export const createLayer = (file: File, name: string): Layer => ({
+    id: createId(),
+    name,
+    file,
+    opacity: 1,
+    blendMode: 'normal',
+    visible: true,
+    mask: null,
+});
+
+// Layers are redrawn on every slider change, so each file is only decoded once.
+const decodedImages = new WeakMap<Blob, Promise<HTMLImageElement>>();
+
+const decode = (file: Blob): Promise<HTMLImageElement> => {
+    let image = decodedImages.get(file);
+    if (!image) {
+        image = loadImage(file);
+        decodedImages.set(file, image);
+        image.catch(() => decodedImages.delete(file));
+    }
+    return image;
+};
+
+/**
+ * Finds the most transparent pixels that turn `source` into `result` when
+ * drawn over it. Unchanged pixels become fully transparent and small changes
+ * mostly transparent, so the layer only covers what the operation changed.
+ * Both arrays are RGBA of the same size.
+ */
+export const extractChanges = (source: Uint8ClampedArray, result: Uint8ClampedArray): Uint8ClampedArray => {
+    const changes = new Uint8ClampedArray(result.length);
+    for (let p = 0; p < result.length; p += 4) {
+        if (source[p + 3] !== 255 || result[p + 3] !== 255) {
+            // Drawing over transparency cannot be undone per channel, so the result is kept as is.
+            changes.set(result.subarray(p, p + 4), p);
+            continue;
+        }
+        // The coverage each channel needs to move from its source value towards 0 or 255.
+        let alpha = 0;
+        for (let c = 0; c < 3; c++) {
+            const from = source[p + c];
+            const to = result[p + c];
+            const needed = to > from ? (to - from) / (255 - from) : to < from ? (from - to) / from : 0;
+            alpha = Math.max(alpha, needed);
+        }
+        const coverage = Math.ceil(alpha * 255);
+        if (coverage === 0) continue;
+        for (let c = 0; c < 3; c++) {
+            changes[p + c] = source[p + c] + (result[p + c] - source[p + c]) * 255 / coverage;
+        }
+        changes[p + 3] = coverage;
+    }
+    return changes;
+};
+
+/**
+ * Creates a layer holding only what an operation changed, so the layers
+ * below it still show wherever it left the image alone.
+ * @param result The operation's output; stretched to the size of `source` if the model returned another size.
+ * @param source The image the operation was applied to.
+ */
+export const createChangeLayer = async (result: File, source: File, name: string): Promise<Layer> => {
+    const [sourceImg, resultImg] = await Promise.all([decode(source), decode(result)]);
+    const width = sourceImg.naturalWidth;
+    const height = sourceImg.naturalHeight;
+    const pixels = getImagePixels(resultImg, width, height);
+    pixels.data.set(extractChanges(getImagePixels(sourceImg, width, height).data, pixels.data));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(pixels, 0, 0);
+    return createLayer(await canvasToFile(canvas, `layer-${Date.now()}.png`), name);
+};
+
+/**
+ * Draws a layer stack onto a canvas, bottom to top. Layers are stretched to
+ * the size of the base.
+ * @param maxSize Longest side of the output; larger stacks are drawn scaled down, e.g. for previews.
+ */
+export const drawLayerStack = async (stack: LayerStack, maxSize = Infinity): Promise<HTMLCanvasElement> => {
+    const visible = stack.layers.filter(layer => layer.visible && layer.opacity > 0);
+    const [base, ...images] = await Promise.all([stack.base, ...visible.flatMap(layer => [layer.file, layer.mask ?? layer.file])].map(decode));
+    const scale = Math.min(1, maxSize / Math.max(base.naturalWidth, base.naturalHeight));
+    const { canvas, ctx } = createCanvas(base.naturalWidth * scale, base.naturalHeight * scale);
+    const { width, height } = canvas;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(base, 0, 0, width, height);
+
+    visible.forEach((layer, i) => {
+        let source: CanvasImageSource = images[i * 2];
+        if (layer.mask) {
+            // The mask's brightness becomes the layer's coverage.
+            const pixels = getImagePixels(source, width, height);
+            const mask = getImagePixels(images[i * 2 + 1], width, height).data;
+            for (let p = 3; p < pixels.data.length; p += 4) {
+                pixels.data[p] = pixels.data[p] * mask[p - 3] / 255;
+            }
+            const masked = createCanvas(width, height);
+            masked.ctx.putImageData(pixels, 0, 0);
+            source = masked.canvas;
+        }
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+        ctx.drawImage(source, 0, 0, width, height);
+    });
+    return canvas;
+};
+
+/**
+ * Flattens a layer stack into a single full-resolution PNG.
+ */
+export const flattenLayerStack = async (stack: LayerStack): Promise<File> =>
+    canvasToFile(await drawLayerStack(stack), `layers-${Date.now()}.png`);
+
+// Each edited stack is flattened at most once, and only when a single image is needed.
+const flattenedStacks = new WeakMap<LayerStack, Promise<File>>();
+
+/**
+ * Returns the image a history step shows, e.g. to export it or to use as the
+ * input of the next operation. Steps whose layers were changed afterwards are
+ * flattened; the rest already have it as their file.
+ */
+export const getStepImage = (entry: HistoryEntry): Promise<File> => {
+    const stack = entry.layers;
+    if (!stack?.edited) return Promise.resolve(entry.file);
+    let image = flattenedStacks.get(stack);
+    if (!image) {
+        image = flattenLayerStack(stack);
+        flattenedStacks.set(stack, image);
+        image.catch(() => flattenedStacks.delete(stack));
+    }
+    return image;
+};
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { crc32 } from './crc32';
+
+/** Metadata read from, or written to, an image file. */
+export interface ImageMetadata {
+    /** EXIF data in TIFF layout, without the JPEG "Exif\0\0" header. */
+    exif: Uint8Array | null;
+    /** The XMP packet as XML text. */
+    xmp: string | null;
+    /** An embedded ICC colour profile. */
+    icc: Uint8Array | null;
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// JPEG segments hold at most 65535 bytes including the two length bytes.
+const MAX_SEGMENT_DATA = 65533;
+const ICC_CHUNK_SIZE = MAX_SEGMENT_DATA - ICC_HEADER.length - 2;
+
+const EMPTY_METADATA: ImageMetadata = { exif: null, xmp: null, icc: null };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const startsWith = (bytes: Uint8Array, text: string, offset = 0): boolean => {
+    if (bytes.length < offset + text.length) return false;
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+export const hasMetadata = (metadata: ImageMetadata): boolean => !!(metadata.exif || metadata.xmp);
+
+const readJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const metadata: ImageMetadata = { ...EMPTY_METADATA };
+    const iccChunks: { index: number; data: Uint8Array }[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Fill bytes may pad the space between segments.
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        // Metadata always precedes the image data, which starts at SOS.
+        if (marker === 0xda || marker === 0xd9) break;
+        const length = view.getUint16(offset + 2);
+        const data = bytes.subarray(offset + 4, offset + 2 + length);
+        if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+            metadata.exif = data.slice(EXIF_HEADER.length);
+        } else if (marker === 0xe1 && startsWith(data, XMP_HEADER)) {
+            metadata.xmp = decoder.decode(data.subarray(XMP_HEADER.length));
+        } else if (marker === 0xe2 && startsWith(data, ICC_HEADER)) {
+            iccChunks.push({ index: data[ICC_HEADER.length], data: data.slice(ICC_HEADER.length + 2) });
+        }
+        offset += 2 + length;
+    }
+    if (iccChunks.length > 0) {
+        metadata.icc = concatBytes(iccChunks.sort((a, b) => a.index - b.index).map(chunk => chunk.data));
+    }
+    return metadata;
+};
+
+const readPngMetadata = (bytes: Uint8Array): ImageMetadata => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const metadata: ImageMetadata = { ...EMPTY_METADATA };
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'eXIf') {
+            metadata.exif = data.slice();
+        } else if (type === 'iTXt' && startsWith(data, `${PNG_XMP_KEYWORD}\0\0`)) {
+            // Keyword, compression flag and method, then empty language and translated keyword.
+            let textStart = PNG_XMP_KEYWORD.length + 3;
+            for (let nulls = 0; nulls < 2 && textStart < data.length; textStart++) {
+                if (data[textStart] === 0) nulls++;
+            }
+            metadata.xmp = decoder.decode(data.subarray(textStart));
+        } else if (type === 'IDAT' || type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    return metadata;
+};
+
+/**
+ * Reads EXIF, XMP and ICC data from a JPEG or PNG file. Other formats, and
+ * files that cannot be parsed, report no metadata.
+ */
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    try {
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegMetadata(bytes);
+        if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return readPngMetadata(bytes);
+    } catch (err) {
+        console.error('Failed to read image metadata.', err);
+    }
+    return { ...EMPTY_METADATA };
+};
+
+// Byte size of one value of each TIFF field type.
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+
+// Zeroes every entry of an IFD, including values stored outside it, and marks it empty.
+const clearIfd = (view: DataView, offset: number, little: boolean): void => {
+    const count = view.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        const size = (TIFF_TYPE_SIZES[view.getUint16(entry + 2, little)] ?? 1) * view.getUint32(entry + 4, little);
+        if (size > 4) {
+            const valueOffset = view.getUint32(entry + 8, little);
+            for (let b = 0; b < size && valueOffset + b < view.byteLength; b++) {
+                view.setUint8(valueOffset + b, 0);
+            }
+        }
+        for (let b = 0; b < 12; b++) {
+            view.setUint8(entry + b, 0);
+        }
+    }
+    view.setUint16(offset, 0, little);
+};
+
+/**
+ * Prepares EXIF data for an edited copy of the image: pixels are exported
+ * upright, so the orientation is reset, and the embedded thumbnail of the
+ * unedited image is dropped. Optionally erases the GPS location.
+ * @returns The cleaned EXIF, or null if it could not be parsed; dropping
+ * unreadable data is safer than risking a leaked location.
+ */
+const cleanExif = (exif: Uint8Array, removeLocation: boolean): Uint8Array | null => {
+    try {
+        const data = exif.slice();
+        const view = new DataView(data.buffer);
+        const little = view.getUint16(0) === 0x4949;
+        const ifd0 = view.getUint32(4, little);
+        const count = view.getUint16(ifd0, little);
+        for (let i = 0; i < count; i++) {
+            const entry = ifd0 + 2 + i * 12;
+            const tag = view.getUint16(entry, little);
+            if (tag === TAG_ORIENTATION) {
+                view.setUint16(entry + 8, 1, little);
+            } else if (tag === TAG_GPS_IFD && removeLocation) {
+                clearIfd(view, view.getUint32(entry + 8, little), little);
+            }
+        }
+        // Unlink IFD1, which holds the thumbnail.
+        view.setUint32(ifd0 + 2 + count * 12, 0, little);
+        return data;
+    } catch (err) {
+        console.error('Failed to clean EXIF data; it will not be exported.', err);
+        return null;
+    }
+};
+
+/**
+ * Prepares metadata read from an original photo for export.
+ * @param removeLocation Erases GPS tags from the EXIF and drops XMP that mentions a location.
+ */
+export const prepareMetadataForExport = (metadata: ImageMetadata, removeLocation: boolean): ImageMetadata => ({
+    exif: metadata.exif && cleanExif(metadata.exif, removeLocation),
+    xmp: removeLocation && metadata.xmp && /GPS(Latitude|Longitude)|LocationShown|LocationCreated/.test(metadata.xmp) ? null : metadata.xmp,
+    icc: metadata.icc,
+});
+
+const jpegSegment = (marker: number, header: string, payload: Uint8Array): Uint8Array => {
+    const headerBytes = encoder.encode(header);
+    const length = 2 + headerBytes.length + payload.length;
+    return concatBytes([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), headerBytes, payload]);
+};
+
+const writeJpegMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+    const segments: Uint8Array[] = [];
+    if (metadata.exif && metadata.exif.length + EXIF_HEADER.length <= MAX_SEGMENT_DATA) {
+        segments.push(jpegSegment(0xe1, EXIF_HEADER, metadata.exif));
+    }
+    const xmp = metadata.xmp ? encoder.encode(metadata.xmp) : null;
+    if (xmp && xmp.length + XMP_HEADER.length <= MAX_SEGMENT_DATA) {
+        segments.push(jpegSegment(0xe1, XMP_HEADER, xmp));
+    }
+    if (metadata.icc) {
+        const chunkCount = Math.ceil(metadata.icc.length / ICC_CHUNK_SIZE);
+        for (let i = 0; i < chunkCount; i++) {
+            const chunk = metadata.icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+            segments.push(jpegSegment(0xe2, ICC_HEADER, concatBytes([new Uint8Array([i + 1, chunkCount]), chunk])));
+        }
+    }
+
+    // Drop the encoder's JFIF header; EXIF is expected directly after SOI.
+    let rest = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        rest = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    return concatBytes([bytes.subarray(0, 2), ...segments, bytes.subarray(rest)]);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encoder.encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const writePngMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    if (metadata.exif) {
+        chunks.push(pngChunk('eXIf', metadata.exif));
+    }
+    if (metadata.xmp) {
+        chunks.push(pngChunk('iTXt', concatBytes([encoder.encode(`${PNG_XMP_KEYWORD}\0\0\0\0\0`), encoder.encode(metadata.xmp)])));
+    }
+    // Metadata goes right after the IHDR chunk, which is always first.
+    const ihdrEnd = PNG_SIGNATURE.length + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(PNG_SIGNATURE.length);
+    return concatBytes([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+/**
+ * Embeds metadata into an encoded JPEG or PNG. ICC profiles are only written
+ * to JPEGs. Other formats are returned unchanged.
+ */
+export const writeImageMetadata = async (image: Blob, metadata: ImageMetadata): Promise<Blob> => {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    let result: Uint8Array;
+    if (image.type === 'image/jpeg') {
+        result = writeJpegMetadata(bytes, metadata);
+    } else if (image.type === 'image/png') {
+        result = writePngMetadata(bytes, metadata);
+    } else {
+        return image;
+    }
+    return new Blob([result.buffer as ArrayBuffer], { type: image.type });
+};
@@ -0,0 +1,348 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas, loadImage } from './image';
+import { createId } from './id';
+
+/**
+ * Positions are fractions of the image size and sizes are relative to the
+ * image, so the same overlays fit images of any resolution.
+ */
+interface OverlayBase {
+    id: string;
+    /** Centre of the overlay, from 0 to 1. */
+    x: number;
+    y: number;
+    /** Clockwise, in degrees. */
+    rotation: number;
+    /** From 0 to 1. */
+    opacity: number;
+}
+
+export type OverlayFont = 'sans' | 'serif' | 'mono' | 'impact' | 'script';
+export type TextAlign = 'left' | 'center' | 'right';
+export type ShapeKind = 'rectangle' | 'ellipse' | 'line' | 'arrow';
+
+export interface TextOverlay extends OverlayBase {
+    kind: 'text';
+    text: string;
+    font: OverlayFont;
+    /** Font size as a percentage of the image's shorter side. */
+    size: number;
+    bold: boolean;
+    color: string;
+    strokeColor: string;
+    /** Outline width as a percentage of the font size; 0 for none. */
+    strokeWidth: number;
+    shadow: boolean;
+    align: TextAlign;
+}
+
+export interface ShapeOverlay extends OverlayBase {
+    kind: 'shape';
+    shape: ShapeKind;
+    /** Fractions of the image width and height. Lines and arrows only use the width, as their length. */
+    width: number;
+    height: number;
+    color: string;
+    /** Line width as a percentage of the image's shorter side. */
+    lineWidth: number;
+    /** Fill color of rectangles and ellipses, or null for an outline. */
+    fill: string | null;
+}
+
+export interface LogoOverlay extends OverlayBase {
+    kind: 'logo';
+    /** The logo as a data URL, so overlays can be saved as JSON. */
+    src: string;
+    /** Fraction of the image width. */
+    width: number;
+    /** Repeats the logo across the whole image, e.g. for a watermark. */
+    tile: boolean;
+    /** Gap between tiles as a fraction of the logo width. */
+    spacing: number;
+}
+
+export type OverlayItem = TextOverlay | ShapeOverlay | LogoOverlay;
+
+export const overlayFonts: { value: OverlayFont; label: string; family: string }[] = [
+    { value: 'sans', label: 'Sans', family: 'Inter, Helvetica, Arial, sans-serif' },
+    { value: 'serif', label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+    { value: 'mono', label: 'Mono', family: '"Courier New", monospace' },
+    { value: 'impact', label: 'Impact', family: 'Impact, "Arial Black", sans-serif' },
+    { value: 'script', label: 'Script', family: '"Brush Script MT", "Segoe Script", cursive' },
+];
+
+export const createTextOverlay = (): TextOverlay => ({
+    id: createId(),
+    kind: 'text',
+    x: 0.5,
+    y: 0.5,
+    rotation: 0,
+    opacity: 1,
+    text: 'Your text',
+    font: 'sans',
+    size: 8,
+    bold: true,
+    color: '#ffffff',
+    strokeColor: '#000000',
+    strokeWidth: 0,
+    shadow: true,
+    align: 'center',
+});
+
+export const createShapeOverlay = (shape: ShapeKind): ShapeOverlay => ({
+    id: createId(),
+    kind: 'shape',
+    x: 0.5,
+    y: 0.5,
+    rotation: 0,
+    opacity: 1,
+    shape,
+    width: 0.3,
+    height: 0.2,
+    color: '#ef4444',
+    lineWidth: 1,
+    fill: null,
+});
+
+// Logos are kept small enough to save in presets.
+const MAX_LOGO_SIZE = 1024;
+
+/**
+ * Creates a logo overlay in the bottom-right corner from an image file.
+ */
+export const createLogoOverlay = async (file: File): Promise<LogoOverlay> => {
+    const img = await loadImage(file);
+    const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return {
+        id: createId(),
+        kind: 'logo',
+        x: 0.85,
+        y: 0.88,
+        rotation: 0,
+        opacity: 0.8,
+        src: canvas.toDataURL('image/png'),
+        width: 0.2,
+        tile: false,
+        spacing: 0.5,
+    };
+};
+
+/** Decoded logo images, keyed by their data URL. */
+export type OverlayImages = Map<string, HTMLImageElement>;
+
+/**
+ * Decodes the logos used by a set of overlays.
+ */
+export const loadOverlayImages = async (items: OverlayItem[]): Promise<OverlayImages> => {
+    const sources = [...new Set(items.flatMap(item => item.kind === 'logo' ? [item.src] : []))];
+    const images = await Promise.all(sources.map(src => loadImage(src)));
+    return new Map(sources.map((src, i) => [src, images[i]]));
+};
+
+const fontFor = (item: TextOverlay, fontSize: number): string =>
+    `${item.bold ? 'bold ' : ''}${fontSize}px ${overlayFonts.find(f => f.value === item.font)?.family ?? 'sans-serif'}`;
+
+/**
+ * Returns the half-size of an overlay's box in canvas pixels, before rotation.
+ * Tiled logos cover the whole image and have no box of their own.
+ */
+export const getOverlayHalfSize = (
+    ctx: CanvasRenderingContext2D,
+    item: OverlayItem,
+    width: number,
+    height: number,
+    images: OverlayImages,
+): { halfWidth: number; halfHeight: number } | null => {
+    const shorter = Math.min(width, height);
+    switch (item.kind) {
+        case 'text': {
+            const fontSize = item.size / 100 * shorter;
+            ctx.save();
+            ctx.font = fontFor(item, fontSize);
+            const lines = item.text.split('\n');
+            const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+            ctx.restore();
+            return { halfWidth: textWidth / 2, halfHeight: lines.length * fontSize * 1.2 / 2 };
+        }
+        case 'shape': {
+            const isLine = item.shape === 'line' || item.shape === 'arrow';
+            const lineWidth = item.lineWidth / 100 * shorter;
+            return {
+                halfWidth: item.width * width / 2,
+                halfHeight: isLine ? Math.max(lineWidth * 3, shorter * 0.02) : item.height * height / 2,
+            };
+        }
+        case 'logo': {
+            const img = images.get(item.src);
+            if (item.tile || !img) return null;
+            const logoWidth = item.width * width;
+            return { halfWidth: logoWidth / 2, halfHeight: logoWidth * img.naturalHeight / img.naturalWidth / 2 };
+        }
+    }
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, item: TextOverlay, shorter: number) => {
+    const fontSize = item.size / 100 * shorter;
+    const lines = item.text.split('\n');
+    ctx.font = fontFor(item, fontSize);
+    ctx.textAlign = item.align;
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const lineX = item.align === 'left' ? -blockWidth / 2 : item.align === 'right' ? blockWidth / 2 : 0;
+    const lineHeight = fontSize * 1.2;
+    ctx.shadowBlur = fontSize * 0.15;
+    ctx.shadowOffsetX = fontSize * 0.04;
+    ctx.shadowOffsetY = fontSize * 0.04;
+    lines.forEach((line, i) => {
+        const lineY = (i - (lines.length - 1) / 2) * lineHeight;
+        ctx.shadowColor = item.shadow ? 'rgba(0, 0, 0, 0.6)' : 'transparent';
+        if (item.strokeWidth > 0) {
+            // The outline is centred on the glyph edge, so it is drawn twice as wide under the fill.
+            ctx.strokeStyle = item.strokeColor;
+            ctx.lineWidth = item.strokeWidth / 100 * fontSize * 2;
+            ctx.strokeText(line, lineX, lineY);
+            ctx.shadowColor = 'transparent';
+        }
+        ctx.fillStyle = item.color;
+        ctx.fillText(line, lineX, lineY);
+    });
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, item: ShapeOverlay, width: number, height: number) => {
+    const shorter = Math.min(width, height);
+    const w = item.width * width;
+    const h = item.height * height;
+    ctx.strokeStyle = item.color;
+    ctx.fillStyle = item.fill ?? 'transparent';
+    ctx.lineWidth = Math.max(1, item.lineWidth / 100 * shorter);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    switch (item.shape) {
+        case 'rectangle':
+            ctx.rect(-w / 2, -h / 2, w, h);
+            break;
+        case 'ellipse':
+            ctx.ellipse(0, 0, w / 2, h / 2, 0, 0, Math.PI * 2);
+            break;
+        case 'line':
+            ctx.moveTo(-w / 2, 0);
+            ctx.lineTo(w / 2, 0);
+            break;
+        case 'arrow': {
+            const head = Math.min(w / 3, ctx.lineWidth * 4);
+            ctx.moveTo(-w / 2, 0);
+            ctx.lineTo(w / 2, 0);
+            ctx.moveTo(w / 2 - head, -head * 0.7);
+            ctx.lineTo(w / 2, 0);
+            ctx.lineTo(w / 2 - head, head * 0.7);
+            break;
+        }
+    }
+    if (item.fill && (item.shape === 'rectangle' || item.shape === 'ellipse')) ctx.fill();
+    ctx.stroke();
+};
+
+const drawLogo = (ctx: CanvasRenderingContext2D, item: LogoOverlay, img: HTMLImageElement, width: number, height: number) => {
+    const logoWidth = item.width * width;
+    const logoHeight = logoWidth * img.naturalHeight / img.naturalWidth;
+    if (!item.tile) {
+        ctx.drawImage(img, -logoWidth / 2, -logoHeight / 2, logoWidth, logoHeight);
+        return;
+    }
+    // Covers the rotated grid's reach so no corner of the image is left bare.
+    const stepX = logoWidth * (1 + item.spacing);
+    const stepY = logoHeight + logoWidth * item.spacing;
+    const reach = Math.hypot(width, height);
+    for (let y = -reach; y <= reach; y += stepY) {
+        for (let x = -reach; x <= reach; x += stepX) {
+            ctx.drawImage(img, x - logoWidth / 2, y - logoHeight / 2, logoWidth, logoHeight);
+        }
+    }
+};
+
+/**
+ * Draws overlays, in order, onto a canvas that shows the whole image.
+ * @param images Logos decoded with `loadOverlayImages`.
+ */
+export const drawOverlays = (
+    ctx: CanvasRenderingContext2D,
+    items: OverlayItem[],
+    width: number,
+    height: number,
+    images: OverlayImages,
+): void => {
+    const shorter = Math.min(width, height);
+    items.forEach(item => {
+        ctx.save();
+        ctx.globalAlpha = item.opacity;
+        // Tiled logos are laid out from the centre of the image.
+        const centred = item.kind === 'logo' && item.tile;
+        ctx.translate(centred ? width / 2 : item.x * width, centred ? height / 2 : item.y * height);
+        ctx.rotate(item.rotation * Math.PI / 180);
+        if (item.kind === 'text') {
+            drawText(ctx, item, shorter);
+        } else if (item.kind === 'shape') {
+            drawShape(ctx, item, width, height);
+        } else {
+            const img = images.get(item.src);
+            if (img) drawLogo(ctx, item, img, width, height);
+        }
+        ctx.restore();
+    });
+};
+
+/**
+ * Finds the topmost overlay under a point.
+ * @param point In canvas pixels.
+ * @returns The overlay's id, or null if the point is over none of them.
+ */
+export const findOverlayAt = (
+    ctx: CanvasRenderingContext2D,
+    items: OverlayItem[],
+    width: number,
+    height: number,
+    images: OverlayImages,
+    point: { x: number; y: number },
+): string | null => {
+    for (let i = items.length - 1; i >= 0; i--) {
+        const item = items[i];
+        const size = getOverlayHalfSize(ctx, item, width, height, images);
+        if (!size) continue;
+        // Rotates the point into the overlay's own, unrotated frame.
+        const radians = -item.rotation * Math.PI / 180;
+        const dx = point.x - item.x * width;
+        const dy = point.y - item.y * height;
+        const localX = dx * Math.cos(radians) - dy * Math.sin(radians);
+        const localY = dx * Math.sin(radians) + dy * Math.cos(radians);
+        if (Math.abs(localX) <= size.halfWidth && Math.abs(localY) <= size.halfHeight) return item.id;
+    }
+    return null;
+};
+
+/**
+ * Draws overlays onto an image at full resolution.
+ */
+export const renderOverlays = async (image: Blob, items: OverlayItem[]): Promise<File> => {
+    const [img, images] = await Promise.all([loadImage(image), loadOverlayImages(items)]);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    drawOverlays(ctx, items, canvas.width, canvas.height, images);
+    return canvasToFile(canvas, `overlay-${Date.now()}.png`);
+};
+
+/**
+ * Summarises overlays for the history, without the logo images themselves.
+ */
+export const describeOverlays = (items: OverlayItem[]): Record<string, unknown>[] =>
+    items.map(item => item.kind === 'logo'
+        ? { kind: 'logo', x: item.x, y: item.y, width: item.width, opacity: item.opacity, tile: item.tile }
+        : { ...item });
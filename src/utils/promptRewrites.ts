@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Words that often trip image safety filters in otherwise harmless edits, with tamer stand-ins.
+const softerWords: [RegExp, string][] = [
+    [/\bblood(y)?\b/gi, 'red paint'],
+    [/\bgore\b/gi, 'dramatic effect'],
+    [/\b(gun|rifle|pistol)s?\b/gi, 'toy'],
+    [/\bweapons?\b/gi, 'prop'],
+    [/\bknife\b/gi, 'kitchen utensil'],
+    [/\b(kill|destroy)\b/gi, 'remove'],
+    [/\b(dead|corpse)\b/gi, 'sleeping'],
+    [/\b(naked|nude|topless)\b/gi, 'fully clothed'],
+    [/\b(sexy|seductive)\b/gi, 'elegant'],
+    [/\blingerie\b/gi, 'evening wear'],
+    [/\b(cigarette|cigar)s?\b/gi, 'pen'],
+    [/\bdrugs?\b/gi, 'candy'],
+    [/\bexplo(de|sion)s?\b/gi, 'burst of light'],
+    [/\bwounds?\b/gi, 'smudge'],
+    [/\b(violent|brutal)\b/gi, 'dramatic'],
+];
+
+const soften = (prompt: string): string =>
+    softerWords.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), prompt);
+
+// The first clause usually carries the intent; the rest is often what gets flagged.
+const firstClause = (prompt: string): string => prompt.split(/[,;.]|\band\b/i)[0].trim();
+
+/**
+ * Suggests rewordings of a prompt that was blocked by safety filters, from the
+ * most to the least similar. The original prompt is never suggested.
+ * @returns Up to three prompts, or none if nothing could be reworded.
+ */
+export const suggestPromptRewrites = (prompt: string): string[] => {
+    const original = prompt.trim();
+    if (!original) return [];
+    const softened = soften(original);
+    const candidates = [
+        softened,
+        `A subtle, natural-looking photo retouch: ${softened}`,
+        firstClause(softened),
+    ];
+    const seen = new Set([original.toLowerCase()]);
+    return candidates.filter(candidate => {
+        const key = candidate.toLowerCase();
+        if (!candidate || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    }).slice(0, 3);
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from './image';
+
+/**
+ * Downscales an image so previews can be rendered cheaply, returning a canvas
+ * whose longest side is at most `maxSize` pixels.
+ */
+export const createPreviewSource = async (file: File, maxSize = 160): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(file);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+/**
+ * Renders a quick approximation of a style: the downscaled image tinted with
+ * the style's gradient. The model's result will differ; this only hints at the mood.
+ * @param source A canvas from `createPreviewSource`.
+ * @param colors Gradient colour stops, top-left to bottom-right.
+ * @param intensity How strongly the gradient is blended in, from 0 to 1.
+ * @returns A data URL of the preview.
+ */
+export const renderStylePreview = (source: HTMLCanvasElement, colors: string[], intensity: number): string => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    colors.forEach((color, i) => gradient.addColorStop(colors.length > 1 ? i / (colors.length - 1) : 0, color));
+
+    ctx.globalAlpha = intensity;
+    ctx.globalCompositeOperation = 'color';
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = intensity / 2;
+    ctx.globalCompositeOperation = 'soft-light';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { applyAdjustments, DEFAULT_ADJUSTMENTS } from './adjustments';
+import { canvasToFile, createCanvas, getImagePixels, loadImage } from './image';
+
+/**
+ * Enlarges one tile. Receives the tile at source resolution and the size it
+ * should have in the output; the result may come back at a different size
+ * and is resized to fit.
+ */
+export type TileUpscaler = (tile: File, width: number, height: number) => Promise<Blob | string>;
+
+export interface TileProgress {
+    completed: number;
+    total: number;
+}
+
+export interface TiledUpscaleOptions {
+    /** Output size of each tile, in pixels. Should match what the upscaler produces well. */
+    tileSize: number;
+    /** How far neighbouring tiles overlap in the output, in pixels. Seams are blended across it. */
+    overlap: number;
+    onProgress?: (progress: TileProgress) => void;
+    /** Stops before the next tile once aborted. */
+    signal?: AbortSignal;
+}
+
+interface Span {
+    start: number;
+    size: number;
+    /** How much of the span the previous one covers. */
+    overlap: number;
+}
+
+// Splits a length into evenly sized spans that overlap by at least `overlap`.
+const splitIntoSpans = (length: number, tileSize: number, overlap: number): Span[] => {
+    if (length <= tileSize) return [{ start: 0, size: length, overlap: 0 }];
+    const count = Math.ceil((length - overlap) / (tileSize - overlap));
+    const size = Math.ceil((length + (count - 1) * overlap) / count);
+    const spans: Span[] = [];
+    for (let i = 0; i < count; i++) {
+        const start = Math.round(i * (length - size) / (count - 1));
+        const previous = spans[i - 1];
+        spans.push({ start, size, overlap: previous ? previous.start + previous.size - start : 0 });
+    }
+    return spans;
+};
+
+// Fades the leading edges of a tile in over the overlap, so drawing it over its neighbours crossfades the seam.
+const featherTile = (ctx: CanvasRenderingContext2D, width: number, height: number, left: number, top: number): void => {
+    ctx.globalCompositeOperation = 'destination-in';
+    if (left > 0) {
+        const gradient = ctx.createLinearGradient(0, 0, left, 0);
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, 'rgba(0,0,0,1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (top > 0) {
+        const gradient = ctx.createLinearGradient(0, 0, 0, top);
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, 'rgba(0,0,0,1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Returns the output size for enlarging an image so its longest side is `longestSide`.
+ */
+export const getUpscaledSize = (width: number, height: number, longestSide: number): { width: number; height: number } => {
+    const scale = longestSide / Math.max(width, height);
+    return width >= height
+        ? { width: longestSide, height: Math.max(1, Math.round(height * scale)) }
+        : { width: Math.max(1, Math.round(width * scale)), height: longestSide };
+};
+
+/**
+ * Enlarges an image tile by tile, so upscalers with a limited output size can
+ * produce large images. Tiles overlap and are blended to hide seams.
+ * @param image The image to enlarge.
+ * @param width The exact output width.
+ * @param height The exact output height.
+ * @param upscaleTile Enlarges a single tile.
+ * @returns A promise that resolves to the enlarged image as a PNG file.
+ * @throws If the assembled image does not have the requested size.
+ */
+export const upscaleInTiles = async (
+    image: File,
+    width: number,
+    height: number,
+    upscaleTile: TileUpscaler,
+    { tileSize, overlap, onProgress, signal }: TiledUpscaleOptions,
+): Promise<File> => {
+    const img = await loadImage(image);
+    const scaleX = width / img.naturalWidth;
+    const scaleY = height / img.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+
+    const columns = splitIntoSpans(width, tileSize, overlap);
+    const rows = splitIntoSpans(height, tileSize, overlap);
+    const total = columns.length * rows.length;
+    let completed = 0;
+    onProgress?.({ completed, total });
+
+    for (const row of rows) {
+        for (const column of columns) {
+            signal?.throwIfAborted();
+            const sx = column.start / scaleX;
+            const sy = row.start / scaleY;
+            const sw = column.size / scaleX;
+            const sh = row.size / scaleY;
+            const source = createCanvas(Math.max(1, Math.round(sw)), Math.max(1, Math.round(sh)));
+            source.ctx.drawImage(img, sx, sy, sw, sh, 0, 0, source.canvas.width, source.canvas.height);
+            const tileFile = await canvasToFile(source.canvas, 'tile.png');
+
+            const result = await upscaleTile(tileFile, column.size, row.size);
+            const resultImage = await loadImage(result);
+            const tile = createCanvas(column.size, row.size);
+            tile.ctx.imageSmoothingQuality = 'high';
+            tile.ctx.drawImage(resultImage, 0, 0, column.size, row.size);
+            featherTile(tile.ctx, column.size, row.size, column.overlap, row.overlap);
+            ctx.drawImage(tile.canvas, column.start, row.start);
+
+            onProgress?.({ completed: ++completed, total });
+        }
+    }
+
+    const file = await canvasToFile(canvas, `upscaled-${Date.now()}.png`);
+    const check = await loadImage(file);
+    if (check.naturalWidth !== width || check.naturalHeight !== height) {
+        throw new Error(`The upscaled image is ${check.naturalWidth}x${check.naturalHeight} pixels instead of ${width}x${height}.`);
+    }
+    return file;
+};
+
+// Sharpening applied after resampling to restore some of the crispness lost to interpolation.
+const LOCAL_SHARPNESS = 35;
+
+/**
+ * Enlarges a tile in the browser with high-quality resampling followed by
+ * sharpening. Much faster than a model and never fails, but adds no detail.
+ */
+export const upscaleTileLocally: TileUpscaler = async (tile, width, height) => {
+    const img = await loadImage(tile);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    const pixels = getImagePixels(canvas, width, height);
+    ctx.putImageData(applyAdjustments(pixels, { ...DEFAULT_ADJUSTMENTS, sharpness: LOCAL_SHARPNESS }), 0, 0);
+    return canvasToFile(canvas, 'tile.png');
+};
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, getImagePixels } from './image';
+
+/**
+ * Rotation and mirroring applied before a crop. Quarter turns are applied
+ * first, then the flips, then the free rotation, so flips and the free
+ * rotation always act on the image as it is seen on screen.
+ */
+export interface ImageTransform {
+    /** Free rotation in degrees, clockwise, between -45 and 45. */
+    rotation: number;
+    /** Clockwise 90° turns, from 0 to 3. */
+    quarterTurns: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+}
+
+export const MAX_ROTATION = 45;
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+    rotation: 0,
+    quarterTurns: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+};
+
+export const isIdentityTransform = (transform: ImageTransform): boolean =>
+    transform.rotation === 0 && transform.quarterTurns === 0 && !transform.flipHorizontal && !transform.flipVertical;
+
+/**
+ * Turns the image as seen on screen by 90°.
+ * @param direction 1 for clockwise, -1 for counter-clockwise.
+ */
+export const rotateQuarterTurn = (transform: ImageTransform, direction: 1 | -1): ImageTransform => {
+    // Behind a single flip the stored turn runs the other way on screen.
+    const mirrored = transform.flipHorizontal !== transform.flipVertical;
+    const turns = transform.quarterTurns + (mirrored ? -direction : direction);
+    return { ...transform, quarterTurns: ((turns % 4) + 4) % 4 };
+};
+
+/**
+ * Mirrors the image as seen on screen. The free rotation is mirrored too so
+ * the horizon keeps its on-screen tilt.
+ */
+export const flipTransform = (transform: ImageTransform, axis: 'horizontal' | 'vertical'): ImageTransform => ({
+    ...transform,
+    rotation: transform.rotation === 0 ? 0 : -transform.rotation,
+    flipHorizontal: axis === 'horizontal' ? !transform.flipHorizontal : transform.flipHorizontal,
+    flipVertical: axis === 'vertical' ? !transform.flipVertical : transform.flipVertical,
+});
+
+/**
+ * Returns the size of an image after a transform. A free rotation keeps the
+ * largest centred rectangle of the same shape that has no empty corners.
+ */
+export const getTransformedSize = (width: number, height: number, transform: ImageTransform): { width: number; height: number } => {
+    const turned = transform.quarterTurns % 2 === 1;
+    const w = turned ? height : width;
+    const h = turned ? width : height;
+    const radians = Math.abs(transform.rotation) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const fit = Math.min(w / (w * cos + h * sin), h / (w * sin + h * cos));
+    return { width: Math.max(1, Math.floor(w * fit)), height: Math.max(1, Math.floor(h * fit)) };
+};
+
+/**
+ * Draws an image with a transform applied onto a new canvas.
+ * @param scale Scales the output, e.g. to draw a smaller preview.
+ */
+export const drawTransformed = (
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    transform: ImageTransform,
+    scale = 1,
+): HTMLCanvasElement => {
+    const size = getTransformedSize(width, height, transform);
+    const { canvas, ctx } = createCanvas(size.width * scale, size.height * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(transform.rotation * Math.PI / 180);
+    ctx.scale(transform.flipHorizontal ? -scale : scale, transform.flipVertical ? -scale : scale);
+    ctx.rotate(transform.quarterTurns * Math.PI / 2);
+    ctx.drawImage(source, -width / 2, -height / 2, width, height);
+    return canvas;
+};
+
+const EDGE_THRESHOLD = 60;
+const BINS_PER_DEGREE = 4;
+
+/**
+ * Estimates how far an image is tilted from the strongest near-horizontal
+ * and near-vertical edges, such as a horizon or the sides of a building.
+ * @param maxAngle Edges tilted further than this are ignored, in degrees.
+ * @returns The rotation in degrees that levels the image, or null if no edges dominate.
+ */
+export const detectStraightenAngle = (source: CanvasImageSource, width: number, height: number, maxAngle = 20): number | null => {
+    const scale = Math.min(1, 512 / Math.max(width, height));
+    const w = Math.max(3, Math.round(width * scale));
+    const h = Math.max(3, Math.round(height * scale));
+    const { data } = getImagePixels(source, w, h);
+    const luma = new Float32Array(w * h);
+    for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+        luma[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    }
+
+    // Edge directions weighted by strength, folded so vertical edges count towards the same tilt.
+    const binCount = maxAngle * 2 * BINS_PER_DEGREE + 1;
+    const histogram = new Float64Array(binCount);
+    for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+            const p = y * w + x;
+            const gx = luma[p - w + 1] + 2 * luma[p + 1] + luma[p + w + 1] - luma[p - w - 1] - 2 * luma[p - 1] - luma[p + w - 1];
+            const gy = luma[p + w - 1] + 2 * luma[p + w] + luma[p + w + 1] - luma[p - w - 1] - 2 * luma[p - w] - luma[p - w + 1];
+            const magnitude = Math.hypot(gx, gy);
+            if (magnitude < EDGE_THRESHOLD) continue;
+            // The edge runs across its gradient.
+            let angle = Math.atan2(gy, gx) * 180 / Math.PI + 90;
+            angle = ((angle + 90) % 180 + 180) % 180 - 90;
+            if (angle > 45) angle -= 90;
+            else if (angle < -45) angle += 90;
+            if (Math.abs(angle) > maxAngle) continue;
+            histogram[Math.round((angle + maxAngle) * BINS_PER_DEGREE)] += magnitude;
+        }
+    }
+
+    const smoothed = histogram.map((_, i) => {
+        let sum = 0;
+        for (let k = -2; k <= 2; k++) sum += histogram[Math.min(binCount - 1, Math.max(0, i + k))] * (3 - Math.abs(k));
+        return sum / 9;
+    });
+    let peak = 0;
+    for (let i = 1; i < binCount; i++) {
+        if (smoothed[i] > smoothed[peak]) peak = i;
+    }
+    const mean = smoothed.reduce((sum, value) => sum + value, 0) / binCount;
+    if (mean === 0 || smoothed[peak] < mean * 3) return null;
+
+    // Refines the peak to a fraction of a bin from its neighbours.
+    let weight = 0;
+    let weighted = 0;
+    for (let i = Math.max(0, peak - 2); i <= Math.min(binCount - 1, peak + 2); i++) {
+        weight += histogram[i];
+        weighted += histogram[i] * i;
+    }
+    const tilt = (weighted / weight) / BINS_PER_DEGREE - maxAngle;
+    return Math.round(-tilt * 10) / 10;
+};
+
+/**
+ * Lists the parts of a transform, e.g. "Rotated 90°, Flipped horizontally, Straightened -2.5°".
+ */
+export const describeTransform = (transform: ImageTransform): string => [
+    transform.quarterTurns ? `Rotated ${transform.quarterTurns * 90}°` : '',
+    transform.flipHorizontal ? 'Flipped horizontally' : '',
+    transform.flipVertical ? 'Flipped vertically' : '',
+    transform.rotation ? `Straightened ${transform.rotation > 0 ? '+' : ''}${transform.rotation}°` : '',
+].filter(Boolean).join(', ');